@@ -9,6 +9,12 @@ import Auth from "./pages/Auth";
 import Profile from "./pages/Profile";
 import Messages from "./pages/Messages";
 import ChatDetail from "./pages/ChatDetail";
+import OAuthConsent from "./pages/OAuthConsent";
+import DeviceAuthorization from "./pages/DeviceAuthorization";
+import Developers from "./pages/Developers";
+import ConnectedApps from "./pages/ConnectedApps";
+import PostDetail from "./pages/PostDetail";
+import UserProfile from "./pages/UserProfile";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -26,6 +32,12 @@ const App = () => (
             <Route path="/profile" element={<Profile />} />
             <Route path="/messages" element={<Messages />} />
             <Route path="/messages/:conversationId" element={<ChatDetail />} />
+            <Route path="/oauth/consent" element={<OAuthConsent />} />
+            <Route path="/device" element={<DeviceAuthorization />} />
+            <Route path="/developers" element={<Developers />} />
+            <Route path="/connected-apps" element={<ConnectedApps />} />
+            <Route path="/posts/:postId" element={<PostDetail />} />
+            <Route path="/u/:userId" element={<UserProfile />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
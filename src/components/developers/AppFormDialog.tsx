@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import ImageUpload from '@/components/ui/image-upload';
+import { DeveloperApp, DeveloperAppInput } from '@/lib/api';
+
+const SCOPE_OPTIONS = [
+  { value: 'openid', label: 'openid — Xác minh danh tính' },
+  { value: 'profile', label: 'profile — Tên và ảnh đại diện' },
+  { value: 'email', label: 'email — Địa chỉ email' },
+  { value: 'wallet', label: 'wallet — Ví Web3 và CAMLY COIN' },
+];
+
+const GRANT_OPTIONS = [
+  { value: 'authorization_code', label: 'Authorization code (đăng nhập qua trình duyệt)' },
+  { value: 'refresh_token', label: 'Refresh token' },
+  { value: 'client_credentials', label: 'Client credentials (server-to-server)' },
+  { value: 'urn:ietf:params:oauth:grant-type:device_code', label: 'Device code (TV, CLI)' },
+];
+
+interface AppFormState {
+  client_name: string;
+  client_uri: string;
+  logo_uri: string;
+  redirect_uris: string;
+  post_logout_redirect_uris: string;
+  scopes: string[];
+  grant_types: string[];
+  is_public: boolean;
+}
+
+const toFormState = (app: DeveloperApp | null): AppFormState => ({
+  client_name: app?.client_name || '',
+  client_uri: app?.client_uri || '',
+  logo_uri: app?.logo_uri || '',
+  redirect_uris: app?.redirect_uris.join('\n') || '',
+  post_logout_redirect_uris: app?.post_logout_redirect_uris.join('\n') || '',
+  scopes: app ? app.scope.split(' ') : ['openid', 'profile'],
+  grant_types: app?.grant_types || ['authorization_code', 'refresh_token'],
+  is_public: app?.token_endpoint_auth_method === 'none',
+});
+
+// One URI per line in the textareas
+const toLines = (value: string) => value.split('\n').map((line) => line.trim()).filter(Boolean);
+
+interface AppFormDialogProps {
+  open: boolean;
+  app: DeveloperApp | null; // null creates a new app
+  submitting: boolean;
+  onSubmit: (input: DeveloperAppInput) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AppFormDialog: React.FC<AppFormDialogProps> = ({ open, app, submitting, onSubmit, onOpenChange }) => {
+  const [form, setForm] = useState<AppFormState>(() => toFormState(app));
+
+  useEffect(() => {
+    if (open) {
+      setForm(toFormState(app));
+    }
+  }, [open, app]);
+
+  const toggle = (field: 'scopes' | 'grant_types', value: string, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      [field]: checked ? [...prev[field], value] : prev[field].filter((item) => item !== value),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      client_name: form.client_name.trim(),
+      client_uri: form.client_uri.trim() || null,
+      logo_uri: form.logo_uri || null,
+      redirect_uris: toLines(form.redirect_uris),
+      post_logout_redirect_uris: toLines(form.post_logout_redirect_uris),
+      scope: form.scopes.join(' '),
+      grant_types: form.grant_types,
+      // A confidential app keeps the secret method it registered with
+      token_endpoint_auth_method: form.is_public
+        ? 'none'
+        : app && app.token_endpoint_auth_method !== 'none' ? app.token_endpoint_auth_method : 'client_secret_basic',
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{app ? 'Chỉnh sửa ứng dụng' : 'Tạo ứng dụng mới'}</DialogTitle>
+          <DialogDescription>Ứng dụng dùng FUN-ID để đăng nhập người dùng Fun Profile.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="client_name">Tên ứng dụng</Label>
+            <Input
+              id="client_name"
+              value={form.client_name}
+              onChange={(e) => setForm({ ...form, client_name: e.target.value })}
+              maxLength={100}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Logo</Label>
+            <ImageUpload
+              purpose="avatar"
+              currentImageUrl={form.logo_uri || undefined}
+              onUploadComplete={(url) => setForm((prev) => ({ ...prev, logo_uri: url }))}
+              variant="dropzone"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="client_uri">Trang chủ</Label>
+            <Input
+              id="client_uri"
+              type="url"
+              placeholder="https://example.com"
+              value={form.client_uri}
+              onChange={(e) => setForm({ ...form, client_uri: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="redirect_uris">Redirect URI (mỗi dòng một URI)</Label>
+            <Textarea
+              id="redirect_uris"
+              rows={3}
+              placeholder="https://example.com/callback"
+              value={form.redirect_uris}
+              onChange={(e) => setForm({ ...form, redirect_uris: e.target.value })}
+              className="font-mono text-xs"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="post_logout_redirect_uris">Post-logout redirect URI</Label>
+            <Textarea
+              id="post_logout_redirect_uris"
+              rows={2}
+              placeholder="https://example.com/logged-out"
+              value={form.post_logout_redirect_uris}
+              onChange={(e) => setForm({ ...form, post_logout_redirect_uris: e.target.value })}
+              className="font-mono text-xs"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Quyền (scope)</Label>
+            {SCOPE_OPTIONS.map((option) => (
+              <label key={option.value} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={form.scopes.includes(option.value)}
+                  onCheckedChange={(checked) => toggle('scopes', option.value, checked === true)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Grant types</Label>
+            {GRANT_OPTIONS.map((option) => (
+              <label key={option.value} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={form.grant_types.includes(option.value)}
+                  onCheckedChange={(checked) => toggle('grant_types', option.value, checked === true)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Loại ứng dụng</Label>
+            <RadioGroup
+              value={form.is_public ? 'public' : 'confidential'}
+              onValueChange={(value) => setForm({ ...form, is_public: value === 'public' })}
+            >
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value="confidential" />
+                Có server riêng (giữ được client secret)
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value="public" />
+                Public (SPA, mobile, CLI — không có secret, bắt buộc PKCE)
+              </label>
+            </RadioGroup>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+              Hủy
+            </Button>
+            <Button type="submit" disabled={submitting || !form.client_name.trim()}>
+              {submitting ? 'Đang lưu...' : app ? 'Lưu' : 'Tạo ứng dụng'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AppFormDialog;
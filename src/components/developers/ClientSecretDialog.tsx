@@ -0,0 +1,74 @@
+import React from 'react';
+import { AlertTriangle, Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+
+interface ClientSecretDialogProps {
+  clientId: string | null;
+  clientSecret: string | null;
+  onClose: () => void;
+}
+
+// The worker only stores a hash, so this dialog is the one chance to copy the secret
+const ClientSecretDialog: React.FC<ClientSecretDialogProps> = ({ clientId, clientSecret, onClose }) => {
+  const copy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success('Đã sao chép');
+    } catch {
+      toast.error('Không thể sao chép');
+    }
+  };
+
+  return (
+    <Dialog open={!!clientSecret} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Client secret</DialogTitle>
+          <DialogDescription className="flex items-start gap-2 text-destructive">
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+            Secret chỉ hiển thị một lần. Hãy lưu lại ở nơi an toàn trước khi đóng.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {clientId && (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Client ID</p>
+              <div className="flex gap-2">
+                <Input readOnly value={clientId} className="font-mono text-xs" />
+                <Button variant="outline" size="icon" onClick={() => copy(clientId)}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Client secret</p>
+            <div className="flex gap-2">
+              <Input readOnly value={clientSecret || ''} className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={() => clientSecret && copy(clientSecret)}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose}>Tôi đã lưu secret</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClientSecretDialog;
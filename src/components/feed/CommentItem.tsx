@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import { Trash2, Loader2 } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Trash2, Loader2, Coins } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import {
@@ -14,6 +15,7 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Comment, deleteComment } from '@/lib/api';
 import { toast } from 'sonner';
+import TipDialog from './TipDialog';
 
 interface CommentItemProps {
   comment: Comment;
@@ -28,6 +30,8 @@ const CommentItem: React.FC<CommentItemProps> = ({
 }) => {
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showTipDialog, setShowTipDialog] = useState(false);
+  const [tips, setTips] = useState({ total: Number(comment.tip_total) || 0, count: comment.tipper_count || 0 });
 
   const isOwner = currentUserId === comment.user_id;
   const authorName = comment.author?.display_name || 'Người dùng';
@@ -77,11 +81,29 @@ const CommentItem: React.FC<CommentItemProps> = ({
         
         <div className="flex-1 min-w-0">
           <div className="bg-muted rounded-2xl px-3 py-2 inline-block max-w-full">
-            <p className="font-semibold text-sm">{authorName}</p>
+            <Link to={`/u/${comment.user_id}`} className="block w-fit font-semibold text-sm hover:underline">
+              {authorName}
+            </Link>
             <p className="text-sm whitespace-pre-wrap break-words">{comment.content}</p>
           </div>
           <div className="flex items-center gap-3 mt-1 px-3">
             <span className="text-xs text-muted-foreground">{formatTime(comment.created_at)}</span>
+            {tips.total > 0 && (
+              <span className="flex items-center gap-1 text-xs text-[hsl(var(--coin-gold))]">
+                <Coins className="h-3 w-3" />
+                +{tips.total.toLocaleString()} từ {tips.count} người
+              </span>
+            )}
+            {currentUserId && !isOwner && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-auto p-0 text-xs text-muted-foreground hover:text-primary"
+                onClick={() => setShowTipDialog(true)}
+              >
+                Tặng
+              </Button>
+            )}
             {isOwner && (
               <Button
                 variant="ghost"
@@ -96,6 +118,14 @@ const CommentItem: React.FC<CommentItemProps> = ({
         </div>
       </div>
 
+      <TipDialog
+        target={{ type: 'comment', id: comment.id }}
+        recipientName={authorName}
+        open={showTipDialog}
+        onOpenChange={setShowTipDialog}
+        onTipped={(result) => setTips({ total: Number(result.tip_total), count: result.tipper_count })}
+      />
+
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -11,12 +11,14 @@ import CommentItem from './CommentItem';
 interface CommentSectionProps {
   postId: string;
   commentsCount: number;
+  pageSize?: number;
   onCommentsCountChange?: (newCount: number) => void;
 }
 
 const CommentSection: React.FC<CommentSectionProps> = ({
   postId,
   commentsCount,
+  pageSize = 10,
   onCommentsCountChange,
 }) => {
   const { user, profile } = useAuth();
@@ -25,30 +27,30 @@ const CommentSection: React.FC<CommentSectionProps> = ({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [newComment, setNewComment] = useState('');
   const [total, setTotal] = useState(commentsCount);
-  const [hasMore, setHasMore] = useState(false);
-  const [offset, setOffset] = useState(0);
-  const limit = 10;
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const limit = pageSize;
 
   const fetchComments = useCallback(async (reset = false) => {
     setIsLoading(true);
-    const currentOffset = reset ? 0 : offset;
-    const { data, error } = await getComments(postId, limit, currentOffset);
+    const { data, error } = await getComments(postId, limit, 0, reset ? null : nextCursor);
     
     if (error) {
       console.error('Failed to fetch comments:', error);
     } else if (data) {
       if (reset) {
         setComments(data.comments);
-        setOffset(limit);
       } else {
-        setComments(prev => [...prev, ...data.comments]);
-        setOffset(currentOffset + limit);
+        // A comment posted from here may already be in the list
+        setComments(prev => [
+          ...prev,
+          ...data.comments.filter(comment => !prev.some(existing => existing.id === comment.id)),
+        ]);
       }
       setTotal(data.total);
-      setHasMore(data.comments.length === limit && (currentOffset + limit) < data.total);
+      setNextCursor(data.next_cursor);
     }
     setIsLoading(false);
-  }, [postId, offset]);
+  }, [postId, nextCursor, limit]);
 
   useEffect(() => {
     fetchComments(true);
@@ -85,7 +87,7 @@ const CommentSection: React.FC<CommentSectionProps> = ({
   };
 
   const handleLoadMore = () => {
-    if (!isLoading && hasMore) {
+    if (!isLoading && nextCursor) {
       fetchComments(false);
     }
   };
@@ -152,7 +154,7 @@ const CommentSection: React.FC<CommentSectionProps> = ({
           </div>
         )}
 
-        {hasMore && !isLoading && (
+        {nextCursor && !isLoading && (
           <Button
             variant="ghost"
             size="sm"
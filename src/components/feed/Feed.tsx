@@ -1,69 +1,101 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Loader2 } from 'lucide-react';
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { ArrowUp, Loader2 } from 'lucide-react';
 import CreatePost from './CreatePost';
 import PostCard from './PostCard';
-import { getPosts, Post } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Post } from '@/lib/api';
+import { formatPostTimestamp } from '@/lib/time';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
+import { useInfinitePosts, useUpdateFeedCache, useNewPostsCount } from '@/hooks/usePosts';
+
+// Where the feed was scrolled to when the user navigated away
+const SCROLL_KEY = 'funprofile.feed.scrollY';
 
 const Feed: React.FC = () => {
-  const [posts, setPosts] = useState<Post[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
+  const {
+    data,
+    isLoading,
+    isError,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfinitePosts();
+  const updateFeed = useUpdateFeedCache();
+  const newPosts = useNewPostsCount(user?.id);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Only a feed rendered from cache is laid out like the one the user left
+  const renderedFromCache = useRef(data !== undefined);
+
+  // Pages can overlap when posts arrive between fetches
+  const posts = useMemo(() => {
+    const seen = new Set<string>();
+    return (data?.pages ?? []).flatMap((page) => page.posts).filter((post) => {
+      if (seen.has(post.id)) return false;
+      seen.add(post.id);
+      return true;
+    });
+  }, [data]);
 
-  const fetchPosts = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    
-    const { data, error: apiError } = await getPosts(20, 0);
-    
-    if (apiError) {
-      setError(apiError);
+  useEffect(() => {
+    if (isError) {
       toast.error('Không thể tải bài viết');
-    } else if (data) {
-      setPosts(data.posts);
     }
-    
-    setLoading(false);
-  }, []);
+  }, [isError]);
 
   useEffect(() => {
-    fetchPosts();
-  }, [fetchPosts]);
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: '600px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Restore the scroll position once the cached pages are rendered, save it on the way out
+  const hasPosts = posts.length > 0;
+  useLayoutEffect(() => {
+    if (!hasPosts) return;
+    const saved = sessionStorage.getItem(SCROLL_KEY);
+    sessionStorage.removeItem(SCROLL_KEY);
+    if (saved && renderedFromCache.current) {
+      window.scrollTo(0, Number(saved));
+    }
+  }, [hasPosts]);
+
+  useEffect(() => {
+    return () => sessionStorage.setItem(SCROLL_KEY, String(window.scrollY));
+  }, []);
+
+  const showNewPosts = () => {
+    newPosts.reset();
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    refetch();
+  };
 
   const handlePostCreated = (newPost: Post) => {
-    setPosts([newPost, ...posts]);
+    updateFeed((pagePosts, pageIndex) => (pageIndex === 0 ? [newPost, ...pagePosts] : pagePosts));
   };
 
   const handlePostUpdated = (updatedPost: Post) => {
-    setPosts(posts.map(p => p.id === updatedPost.id ? updatedPost : p));
+    updateFeed((pagePosts) => pagePosts.map(p => p.id === updatedPost.id ? updatedPost : p));
   };
 
   const handlePostDeleted = (postId: string) => {
-    setPosts(posts.filter(p => p.id !== postId));
-  };
-
-  const formatTimestamp = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
-    const diffDays = Math.floor(diffHours / 24);
-    
-    if (diffHours < 1) {
-      const diffMinutes = Math.floor(diffMs / (1000 * 60));
-      return `${diffMinutes} phút trước`;
-    } else if (diffHours < 24) {
-      return `${diffHours} giờ trước`;
-    } else if (diffDays < 7) {
-      return `${diffDays} ngày trước`;
-    } else {
-      return date.toLocaleDateString('vi-VN');
-    }
+    updateFeed((pagePosts) => pagePosts.filter(p => p.id !== postId));
   };
 
-  if (loading) {
+  if (isLoading) {
     return (
       <div className="max-w-xl mx-auto">
         <CreatePost onPostCreated={handlePostCreated} />
@@ -74,14 +106,14 @@ const Feed: React.FC = () => {
     );
   }
 
-  if (error) {
+  if (isError) {
     return (
       <div className="max-w-xl mx-auto">
         <CreatePost onPostCreated={handlePostCreated} />
         <div className="text-center py-8 text-muted-foreground">
           <p>Đã xảy ra lỗi khi tải bài viết</p>
           <button 
-            onClick={fetchPosts}
+            onClick={() => refetch()}
             className="mt-2 text-primary hover:underline"
           >
             Thử lại
@@ -94,6 +126,18 @@ const Feed: React.FC = () => {
   return (
     <div className="max-w-xl mx-auto">
       <CreatePost onPostCreated={handlePostCreated} />
+
+      {newPosts.count > 0 && (
+        <div className="sticky top-16 z-10 flex justify-center mb-4">
+          <Button
+            onClick={showNewPosts}
+            className="gradient-chakra hover:opacity-90 text-primary-foreground rounded-full shadow-lg gap-2"
+          >
+            <ArrowUp className="h-4 w-4" />
+            {newPosts.count} bài viết mới
+          </Button>
+        </div>
+      )}
       
       {posts.length === 0 ? (
         <div className="text-center py-8 text-muted-foreground">
@@ -116,16 +160,28 @@ const Feed: React.FC = () => {
             image={post.image_url || undefined}
             videoUrl={post.video_url || undefined}
             mediaType={(post.media_type as 'image' | 'video' | 'none') || undefined}
-            timestamp={formatTimestamp(post.created_at)}
+            timestamp={formatPostTimestamp(post.created_at)}
             likes={post.likes_count}
             comments={post.comments_count}
             shares={post.shares_count}
             coinReward={post.coin_reward > 0 ? post.coin_reward : undefined}
+            tipTotal={Number(post.tip_total) || 0}
+            tipperCount={post.tipper_count || 0}
             onUpdate={handlePostUpdated}
             onDelete={handlePostDeleted}
           />
         ))
       )}
+
+      <div ref={sentinelRef} />
+      {isFetchingNextPage && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      )}
+      {!hasNextPage && posts.length > 0 && (
+        <p className="text-center py-4 text-sm text-muted-foreground">Bạn đã xem hết bài viết</p>
+      )}
     </div>
   );
 };
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { Heart, MessageCircle, Share2, Bookmark, MoreHorizontal, Coins, Pencil, Trash2, Loader2 } from 'lucide-react';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -25,6 +26,7 @@ import { updatePost, deletePost, likePost, unlikePost, getLikeStatus, Post } fro
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import CommentSection from './CommentSection';
+import TipDialog from './TipDialog';
 import VideoPlayer from '@/components/ui/video-player';
 
 interface PostCardProps {
@@ -45,6 +47,10 @@ interface PostCardProps {
   comments: number;
   shares: number;
   coinReward?: number;
+  tipTotal?: number;
+  tipperCount?: number;
+  defaultShowComments?: boolean;
+  commentsPageSize?: number;
   onUpdate?: (post: Post) => void;
   onDelete?: (postId: string) => void;
 }
@@ -63,6 +69,10 @@ const PostCard: React.FC<PostCardProps> = ({
   comments,
   shares,
   coinReward,
+  tipTotal = 0,
+  tipperCount = 0,
+  defaultShowComments = false,
+  commentsPageSize,
   onUpdate,
   onDelete,
 }) => {
@@ -71,15 +81,19 @@ const PostCard: React.FC<PostCardProps> = ({
   const [saved, setSaved] = useState(false);
   const [likeCount, setLikeCount] = useState(likes);
   const [commentsCount, setCommentsCount] = useState(comments);
-  const [showComments, setShowComments] = useState(false);
+  const [showComments, setShowComments] = useState(defaultShowComments);
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState(content);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLiking, setIsLiking] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [videoError, setVideoError] = useState(false);
+  const [showTipDialog, setShowTipDialog] = useState(false);
+  const [tips, setTips] = useState({ total: tipTotal, count: tipperCount });
 
   const isOwner = currentUserId === userId;
+  const permalink = `/posts/${postId}`;
+  const profileLink = `/u/${userId}`;
 
   // Fetch like status on mount if user is logged in
   useEffect(() => {
@@ -164,6 +178,35 @@ const PostCard: React.FC<PostCardProps> = ({
     setShowDeleteDialog(false);
   };
 
+  const handleTipClick = () => {
+    if (!user) {
+      toast.error('Vui lòng đăng nhập để tặng CAMLY');
+      return;
+    }
+    setShowTipDialog(true);
+  };
+
+  const handleShare = async () => {
+    const url = `${window.location.origin}${permalink}`;
+
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: `Bài viết của ${author.name}`, text: content.slice(0, 100), url });
+        return;
+      } catch (error) {
+        // The user closed the share sheet
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+      }
+    }
+
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Đã sao chép liên kết bài viết');
+    } catch {
+      toast.error('Không thể sao chép liên kết');
+    }
+  };
+
   const toggleComments = () => {
     setShowComments(!showComments);
   };
@@ -172,22 +215,26 @@ const PostCard: React.FC<PostCardProps> = ({
     <>
       <Card className="mb-4 overflow-hidden hover:shadow-md transition-shadow">
         <CardHeader className="flex flex-row items-start gap-3 pb-2">
-          <Avatar className="h-10 w-10 ring-2 ring-primary/20">
-            <AvatarImage src={author.avatar || '/placeholder.svg'} />
-            <AvatarFallback className="bg-primary text-primary-foreground">
-              {author.name[0]}
-            </AvatarFallback>
-          </Avatar>
+          <Link to={profileLink}>
+            <Avatar className="h-10 w-10 ring-2 ring-primary/20">
+              <AvatarImage src={author.avatar || '/placeholder.svg'} />
+              <AvatarFallback className="bg-primary text-primary-foreground">
+                {author.name[0]}
+              </AvatarFallback>
+            </Avatar>
+          </Link>
           <div className="flex-1">
             <div className="flex items-center gap-2">
-              <span className="font-semibold hover:underline cursor-pointer">{author.name}</span>
+              <Link to={profileLink} className="font-semibold hover:underline">{author.name}</Link>
               {author.verified && (
                 <Badge variant="secondary" className="bg-primary/10 text-primary text-xs px-1.5">
                   ✓
                 </Badge>
               )}
             </div>
-            <p className="text-sm text-muted-foreground">{timestamp}</p>
+            <Link to={permalink} className="block w-fit text-sm text-muted-foreground hover:underline">
+              {timestamp}
+            </Link>
           </div>
           
           {coinReward && (
@@ -322,6 +369,12 @@ const PostCard: React.FC<PostCardProps> = ({
               <span>{likeCount.toLocaleString()}</span>
             </div>
             <div className="flex gap-4">
+              {tips.total > 0 && (
+                <span className="flex items-center gap-1 text-[hsl(var(--coin-gold))]">
+                  <Coins className="h-3.5 w-3.5" />
+                  +{Number(tips.total).toLocaleString()} CAMLY từ {tips.count} người
+                </span>
+              )}
               <button 
                 className="hover:underline cursor-pointer"
                 onClick={toggleComments}
@@ -351,10 +404,20 @@ const PostCard: React.FC<PostCardProps> = ({
               <MessageCircle className="h-5 w-5" />
               Bình luận
             </Button>
-            <Button variant="ghost" className="flex-1 gap-2 text-muted-foreground">
+            <Button variant="ghost" className="flex-1 gap-2 text-muted-foreground" onClick={handleShare}>
               <Share2 className="h-5 w-5" />
               Chia sẻ
             </Button>
+            {!isOwner && (
+              <Button
+                variant="ghost"
+                className="flex-1 gap-2 text-muted-foreground"
+                onClick={handleTipClick}
+              >
+                <Coins className="h-5 w-5" />
+                Tặng
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="icon"
@@ -370,12 +433,21 @@ const PostCard: React.FC<PostCardProps> = ({
             <CommentSection 
               postId={postId}
               commentsCount={commentsCount}
+              pageSize={commentsPageSize}
               onCommentsCountChange={setCommentsCount}
             />
           )}
         </CardContent>
       </Card>
 
+      <TipDialog
+        target={{ type: 'post', id: postId }}
+        recipientName={author.name}
+        open={showTipDialog}
+        onOpenChange={setShowTipDialog}
+        onTipped={(result) => setTips({ total: result.tip_total, count: result.tipper_count })}
+      />
+
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
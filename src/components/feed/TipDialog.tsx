@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { Coins, Loader2 } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { tipPost, tipComment, TipResult } from '@/lib/api';
+import { useCamlyBalance } from '@/hooks/useCamly';
+import { toast } from 'sonner';
+
+const PRESET_AMOUNTS = [10, 50, 100, 500];
+const MAX_TIP = 1000;
+
+interface TipDialogProps {
+  target: { type: 'post' | 'comment'; id: string };
+  recipientName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onTipped?: (result: TipResult) => void;
+}
+
+const TipDialog: React.FC<TipDialogProps> = ({ target, recipientName, open, onOpenChange, onTipped }) => {
+  const queryClient = useQueryClient();
+  const { data: balance } = useCamlyBalance(open);
+  const [amount, setAmount] = useState(PRESET_AMOUNTS[1]);
+  const [sending, setSending] = useState(false);
+  // One key per tip attempt: a double-click or retry replays it instead of paying twice
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
+
+  useEffect(() => {
+    if (open) {
+      setIdempotencyKey(crypto.randomUUID());
+    }
+  }, [open]);
+
+  const isValidAmount = Number.isInteger(amount) && amount >= 1 && amount <= MAX_TIP;
+  const exceedsBalance = balance !== undefined && amount > balance;
+
+  const handleSend = async () => {
+    if (sending || !isValidAmount) return;
+
+    setSending(true);
+    const { data, error } = target.type === 'post'
+      ? await tipPost(target.id, amount, idempotencyKey)
+      : await tipComment(target.id, amount, idempotencyKey);
+    setSending(false);
+
+    if (error || !data) {
+      toast.error('Không thể tặng CAMLY: ' + error);
+      return;
+    }
+
+    toast.success(`Đã tặng ${data.tip.amount.toLocaleString()} CAMLY cho ${recipientName}`);
+    queryClient.invalidateQueries({ queryKey: ['camly'] });
+    onTipped?.(data);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !sending && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Coins className="w-5 h-5 text-[hsl(var(--coin-gold))]" />
+            Tặng CAMLY cho {recipientName}
+          </DialogTitle>
+          <DialogDescription>
+            Số dư: {balance !== undefined ? balance.toLocaleString() : '...'} CAMLY
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-4 gap-2">
+            {PRESET_AMOUNTS.map((preset) => (
+              <Button
+                key={preset}
+                type="button"
+                variant={amount === preset ? 'default' : 'outline'}
+                onClick={() => setAmount(preset)}
+                disabled={sending}
+              >
+                {preset}
+              </Button>
+            ))}
+          </div>
+          <Input
+            type="number"
+            min={1}
+            max={MAX_TIP}
+            step={1}
+            value={Number.isNaN(amount) ? '' : amount}
+            onChange={(e) => setAmount(parseInt(e.target.value, 10))}
+            disabled={sending}
+          />
+          {exceedsBalance && (
+            <p className="text-sm text-destructive">Số dư không đủ</p>
+          )}
+          {!isValidAmount && (
+            <p className="text-sm text-destructive">Số CAMLY phải từ 1 đến {MAX_TIP.toLocaleString()}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={sending}>
+            Hủy
+          </Button>
+          <Button
+            onClick={handleSend}
+            disabled={sending || !isValidAmount || exceedsBalance}
+            className="gradient-chakra hover:opacity-90 text-primary-foreground"
+          >
+            {sending ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : null}
+            Tặng {isValidAmount ? amount.toLocaleString() : ''} CAMLY
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TipDialog;
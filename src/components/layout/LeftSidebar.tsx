@@ -1,6 +1,6 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { Home, User, Users, Bookmark, Calendar, Gift, Coins, LogOut } from 'lucide-react';
+import { Home, User, Users, Bookmark, Calendar, Gift, Coins, Code, Link2, LogOut } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useAuth } from '@/contexts/AuthContext';
@@ -11,6 +11,8 @@ const menuItems = [
   { icon: Bookmark, label: 'Đã lưu', href: '#' },
   { icon: Calendar, label: 'Sự kiện', href: '#' },
   { icon: Gift, label: 'Phần thưởng', href: '#', highlight: true },
+  { icon: Link2, label: 'Ứng dụng đã kết nối', href: '/connected-apps' },
+  { icon: Code, label: 'Nhà phát triển', href: '/developers' },
 ];
 
 const LeftSidebar: React.FC = () => {
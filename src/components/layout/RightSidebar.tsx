@@ -1,8 +1,9 @@
 import React from 'react';
-import { TrendingUp, Users, Gift, ExternalLink } from 'lucide-react';
+import { TrendingUp, Users, ExternalLink } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import DailyCheckIn from '@/components/web3/DailyCheckIn';
 
 const trendingTopics = [
   { tag: '#Web3Vietnam', posts: '2.5K bài viết' },
@@ -20,28 +21,7 @@ const RightSidebar: React.FC = () => {
   return (
     <aside className="hidden xl:block fixed right-0 top-14 bottom-0 w-80 p-4 overflow-y-auto">
       {/* Daily Rewards */}
-      <Card className="mb-4 border-primary/20 bg-gradient-to-br from-card to-primary/5">
-        <CardHeader className="pb-2">
-          <CardTitle className="flex items-center gap-2 text-base">
-            <Gift className="h-5 w-5 text-primary" />
-            Phần thưởng hàng ngày
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="flex items-center justify-between mb-3">
-            <div>
-              <p className="text-2xl font-bold text-primary">+50</p>
-              <p className="text-sm text-muted-foreground">CAMLY COIN</p>
-            </div>
-            <div className="h-12 w-12 rounded-full gradient-chakra flex items-center justify-center animate-float">
-              <span className="text-2xl">🪙</span>
-            </div>
-          </div>
-          <Button className="w-full gradient-chakra hover:opacity-90 text-primary-foreground">
-            Điểm danh nhận thưởng
-          </Button>
-        </CardContent>
-      </Card>
+      <DailyCheckIn />
 
       {/* Trending */}
       <Card className="mb-4">
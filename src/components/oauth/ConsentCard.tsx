@@ -0,0 +1,114 @@
+import React from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { SCOPE_DETAILS } from './scopes';
+
+interface ConsentCardProps {
+  clientName: string;
+  logoUri?: string | null;
+  scopes: string[];
+  grantedScopes?: string[];
+  userLabel?: string | null;
+  submitting?: boolean;
+  onApprove: () => void;
+  onDeny: () => void;
+  onSwitchAccount?: () => void;
+}
+
+const ConsentCard: React.FC<ConsentCardProps> = ({
+  clientName,
+  logoUri,
+  scopes,
+  grantedScopes = [],
+  userLabel,
+  submitting = false,
+  onApprove,
+  onDeny,
+  onSwitchAccount,
+}) => {
+  const knownScopes = scopes.filter((scope) => SCOPE_DETAILS[scope]);
+  const knownGrantedScopes = grantedScopes.filter((scope) => SCOPE_DETAILS[scope]);
+
+  return (
+    <Card className="w-full max-w-md border-chakra-primary/20 bg-card/80 backdrop-blur-sm relative z-10">
+      <CardHeader className="text-center space-y-4">
+        <div className="flex justify-center">
+          <Avatar className="w-16 h-16">
+            {logoUri && <AvatarImage src={logoUri} alt={clientName} />}
+            <AvatarFallback className="text-xl font-semibold">
+              {clientName.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+        </div>
+        <CardTitle className="text-xl font-bold">{clientName}</CardTitle>
+        <CardDescription className="text-muted-foreground">
+          muốn truy cập tài khoản Fun Profile của bạn
+          {userLabel && (
+            <span className="block mt-1 font-medium text-foreground">{userLabel}</span>
+          )}
+          {onSwitchAccount && (
+            <button
+              type="button"
+              onClick={onSwitchAccount}
+              disabled={submitting}
+              className="block mx-auto mt-1 text-xs text-chakra-primary hover:text-chakra-light transition-colors"
+            >
+              Không phải bạn? Dùng tài khoản khác
+            </button>
+          )}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <p className="text-sm font-medium">
+          {knownGrantedScopes.length > 0 ? 'Ứng dụng này muốn thêm quyền:' : 'Ứng dụng này sẽ có thể:'}
+        </p>
+        <ul className="space-y-3">
+          {knownScopes.map((scope) => {
+            const { icon: Icon, label, description } = SCOPE_DETAILS[scope];
+            return (
+              <li key={scope} className="flex items-start gap-3">
+                <Icon className="w-5 h-5 mt-0.5 text-chakra-primary shrink-0" />
+                <div>
+                  <p className="text-sm font-medium">{label}</p>
+                  <p className="text-xs text-muted-foreground">{description}</p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {knownGrantedScopes.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Đã cho phép trước đó: {knownGrantedScopes.map((scope) => SCOPE_DETAILS[scope].label).join(', ')}
+          </p>
+        )}
+
+        <Separator />
+
+        <p className="flex items-start gap-2 text-xs text-muted-foreground">
+          <ShieldCheck className="w-4 h-4 shrink-0" />
+          Fun Profile không bao giờ chia sẻ mật khẩu của bạn. Bạn có thể thu hồi quyền truy cập bất cứ lúc nào.
+        </p>
+      </CardContent>
+
+      <CardFooter className="flex gap-3">
+        <Button variant="outline" className="flex-1" disabled={submitting} onClick={onDeny}>
+          Từ chối
+        </Button>
+        <Button
+          className="flex-1 gradient-chakra hover:opacity-90 transition-opacity text-white font-semibold"
+          disabled={submitting}
+          onClick={onApprove}
+        >
+          {submitting ? 'Đang xử lý...' : 'Cho phép'}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default ConsentCard;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Fingerprint, Mail, UserCircle, Wallet } from 'lucide-react';
+
+// Human-readable descriptions for the scopes FUN-ID supports
+export const SCOPE_DETAILS: Record<string, { icon: React.ElementType; label: string; description: string }> = {
+  openid: {
+    icon: Fingerprint,
+    label: 'Xác minh danh tính',
+    description: 'Biết bạn là ai trên Fun Profile',
+  },
+  profile: {
+    icon: UserCircle,
+    label: 'Hồ sơ công khai',
+    description: 'Tên hiển thị và ảnh đại diện',
+  },
+  email: {
+    icon: Mail,
+    label: 'Địa chỉ email',
+    description: 'Email bạn dùng để đăng nhập',
+  },
+  wallet: {
+    icon: Wallet,
+    label: 'Ví Web3',
+    description: 'Địa chỉ ví và số dư CAMLY COIN',
+  },
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { vi } from 'date-fns/locale';
+import { ArrowDownLeft, ArrowUpRight, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCamlyTransactions } from '@/hooks/useCamly';
+import type { CamlyTransaction, CamlyTransactionType } from '@/lib/api';
+
+const TYPE_LABELS: Record<CamlyTransactionType, string> = {
+  reward: 'Phần thưởng',
+  tip: 'Tặng thưởng',
+  check_in: 'Điểm danh',
+  withdrawal: 'Rút về ví',
+  adjustment: 'Điều chỉnh',
+};
+
+const describe = (tx: CamlyTransaction) => {
+  if (tx.type === 'tip' && tx.counterparty) {
+    const name = tx.counterparty.display_name || 'người dùng';
+    return tx.direction === 'in' ? `Từ ${name}` : `Gửi ${name}`;
+  }
+  return tx.description || TYPE_LABELS[tx.type];
+};
+
+const CamlyHistory: React.FC = () => {
+  const { data, isLoading, isError, fetchNextPage, hasNextPage, isFetchingNextPage } = useCamlyTransactions();
+  const transactions = data?.pages.flatMap((page) => page?.transactions ?? []) ?? [];
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return <p className="text-center py-8 text-muted-foreground">Không thể tải lịch sử giao dịch</p>;
+  }
+
+  if (transactions.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <p>Chưa có giao dịch nào</p>
+        <p className="text-sm mt-1">CAMLY bạn nhận và gửi sẽ hiển thị ở đây</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {transactions.map((tx) => {
+        const incoming = tx.direction === 'in';
+        return (
+          <div key={tx.id} className="flex items-center gap-3 p-3 rounded-lg bg-secondary">
+            <div className={`h-8 w-8 rounded-full flex items-center justify-center ${incoming ? 'bg-primary/10 text-primary' : 'bg-destructive/10 text-destructive'}`}>
+              {incoming ? <ArrowDownLeft className="w-4 h-4" /> : <ArrowUpRight className="w-4 h-4" />}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">{describe(tx)}</p>
+              <p className="text-xs text-muted-foreground">
+                {TYPE_LABELS[tx.type]} · {format(new Date(tx.created_at), 'HH:mm dd/MM/yyyy', { locale: vi })}
+              </p>
+            </div>
+            <span className={`font-bold ${incoming ? 'text-[hsl(var(--coin-gold))]' : 'text-destructive'}`}>
+              {incoming ? '+' : '-'}{tx.amount.toLocaleString()}
+            </span>
+          </div>
+        );
+      })}
+      {hasNextPage && (
+        <Button
+          variant="ghost"
+          className="w-full"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+        >
+          {isFetchingNextPage ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Xem thêm'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default CamlyHistory;
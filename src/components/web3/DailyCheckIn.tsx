@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Gift, Flame, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCheckInStatus, useCheckIn } from '@/hooks/useCamly';
+
+// Shown to signed-out visitors: the day-one reward
+const FIRST_DAY_REWARD = 50;
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map((part) => part.toString().padStart(2, '0')).join(':');
+};
+
+const DailyCheckIn: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { data: status, isLoading, refetch } = useCheckInStatus(!!user);
+  const checkIn = useCheckIn();
+  const [now, setNow] = useState(() => Date.now());
+
+  const nextCheckInAt = status ? new Date(status.next_check_in_at).getTime() : 0;
+  const remaining = nextCheckInAt - now;
+  const waiting = !!status?.checked_in_today && remaining > 0;
+
+  useEffect(() => {
+    if (!status?.checked_in_today) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [status?.checked_in_today]);
+
+  // A new day has started: pick up the fresh streak and reward
+  useEffect(() => {
+    if (status?.checked_in_today && remaining <= 0) {
+      refetch();
+    }
+  }, [status?.checked_in_today, remaining, refetch]);
+
+  const handleClick = () => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    checkIn.mutate();
+  };
+
+  const reward = status?.next_reward ?? FIRST_DAY_REWARD;
+
+  return (
+    <Card className="mb-4 border-primary/20 bg-gradient-to-br from-card to-primary/5">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Gift className="h-5 w-5 text-primary" />
+          Phần thưởng hàng ngày
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <p className="text-2xl font-bold text-primary">+{reward.toLocaleString()}</p>
+            <p className="text-sm text-muted-foreground">
+              {waiting ? 'CAMLY COIN ngày mai' : 'CAMLY COIN'}
+            </p>
+          </div>
+          <div className="h-12 w-12 rounded-full gradient-chakra flex items-center justify-center animate-float">
+            <span className="text-2xl">🪙</span>
+          </div>
+        </div>
+        {!!status?.streak && (
+          <p className="flex items-center gap-1 text-sm text-muted-foreground mb-3">
+            <Flame className="h-4 w-4 text-orange-500" />
+            Chuỗi {status.streak} ngày liên tiếp
+          </p>
+        )}
+        <Button
+          onClick={handleClick}
+          disabled={(!!user && isLoading) || waiting || checkIn.isPending}
+          className="w-full gradient-chakra hover:opacity-90 text-primary-foreground"
+        >
+          {checkIn.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : waiting ? (
+            `Điểm danh lại sau ${formatCountdown(remaining)}`
+          ) : (
+            'Điểm danh nhận thưởng'
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DailyCheckIn;
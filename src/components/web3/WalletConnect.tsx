@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Wallet, ChevronDown, Copy, ExternalLink, LogOut, Coins } from 'lucide-react';
+import { Wallet, ChevronDown, Copy, ExternalLink, LogOut, Coins, AlertTriangle, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -9,32 +9,90 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { useToast } from '@/hooks/use-toast';
+import { useWallet } from '@/hooks/useWallet';
+import { useCamlyBalance } from '@/hooks/useCamly';
+import { useAuth } from '@/contexts/AuthContext';
+import { linkWallet, unlinkWallet } from '@/lib/api';
+import { signSiweMessage } from '@/lib/siwe';
+import { DEFAULT_CHAIN, getAddressExplorerUrl } from '@/lib/chains';
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
 
 const WalletConnect: React.FC = () => {
-  const [isConnected, setIsConnected] = useState(false);
-  const [walletAddress, setWalletAddress] = useState('');
-  const [balance, setBalance] = useState(0);
+  const { profile, refreshProfile } = useAuth();
+  const wallet = useWallet();
+  const [linking, setLinking] = useState(false);
   const { toast } = useToast();
 
-  const connectWallet = async () => {
-    // Simulated wallet connection
-    // In production, integrate with ethers.js or wagmi
-    const mockAddress = '0x' + Math.random().toString(16).substring(2, 10) + '...' + Math.random().toString(16).substring(2, 6);
-    setWalletAddress(mockAddress);
-    setBalance(Math.floor(Math.random() * 10000));
-    setIsConnected(true);
-    
+  const walletAddress = profile?.wallet_address || '';
+  const isLinked = !!walletAddress;
+  const { data: camlyBalance } = useCamlyBalance(isLinked);
+  const balance = camlyBalance ?? Number(profile?.camly_balance || 0);
+
+  // The wallet extension may have another account selected than the one linked to the profile
+  const isOtherAccount = wallet.status === 'connected' && !!wallet.address
+    && wallet.address.toLowerCase() !== walletAddress.toLowerCase();
+  const isWrongNetwork = wallet.status === 'connected' && !wallet.isSupportedChain;
+  const explorerUrl = getAddressExplorerUrl(wallet.isSupportedChain ? wallet.chainId : DEFAULT_CHAIN.id, walletAddress);
+
+  const showError = (title: string, error: unknown) => {
     toast({
-      title: "Ví đã kết nối!",
-      description: "Chào mừng bạn đến với Fun Profile Web3",
+      title,
+      description: error instanceof Error ? error.message : typeof error === 'string' ? error : undefined,
+      variant: "destructive",
     });
   };
 
-  const disconnectWallet = () => {
-    setIsConnected(false);
-    setWalletAddress('');
-    setBalance(0);
-    
+  const connectWallet = async () => {
+    setLinking(true);
+    try {
+      const account = await wallet.connect();
+      if (!account) return;
+
+      // The signature proves ownership; the worker verifies it before linking
+      const siwe = await signSiweMessage();
+      const { error } = await linkWallet({ message: siwe.message, signature: siwe.signature });
+
+      if (error) {
+        showError("Không thể kết nối ví", error);
+        return;
+      }
+
+      await refreshProfile();
+      toast({
+        title: "Ví đã kết nối!",
+        description: "Chào mừng bạn đến với Fun Profile Web3",
+      });
+    } catch (error) {
+      showError("Không thể kết nối ví", error);
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  const reconnectWallet = async () => {
+    try {
+      await wallet.connect();
+    } catch (error) {
+      showError("Không thể kết nối ví", error);
+    }
+  };
+
+  const switchNetwork = async () => {
+    if (!(await wallet.switchChain(DEFAULT_CHAIN))) {
+      showError("Không thể chuyển mạng", `Vui lòng chọn ${DEFAULT_CHAIN.name} trong ví của bạn`);
+    }
+  };
+
+  const disconnectWallet = async () => {
+    const { error } = await unlinkWallet();
+    if (error) {
+      showError("Không thể ngắt kết nối ví", error);
+      return;
+    }
+
+    wallet.disconnect();
+    await refreshProfile();
     toast({
       title: "Đã ngắt kết nối ví",
       description: "Hẹn gặp lại bạn!",
@@ -48,10 +106,17 @@ const WalletConnect: React.FC = () => {
     });
   };
 
-  if (!isConnected) {
+  const openExplorer = () => {
+    if (explorerUrl) {
+      window.open(explorerUrl, '_blank', 'noopener,noreferrer');
+    }
+  };
+
+  if (!isLinked) {
     return (
-      <Button 
+      <Button
         onClick={connectWallet}
+        disabled={linking || wallet.status === 'connecting'}
         className="gradient-chakra hover:opacity-90 text-primary-foreground gap-2"
       >
         <Wallet className="h-4 w-4" />
@@ -66,27 +131,53 @@ const WalletConnect: React.FC = () => {
         <Button variant="outline" className="border-primary/30 hover:bg-primary/10 gap-2">
           <div className="flex items-center gap-2">
             <div className="h-6 w-6 rounded-full gradient-chakra flex items-center justify-center">
-              <Coins className="h-3 w-3 text-primary-foreground" />
+              {isWrongNetwork || isOtherAccount ? (
+                <AlertTriangle className="h-3 w-3 text-primary-foreground" />
+              ) : (
+                <Coins className="h-3 w-3 text-primary-foreground" />
+              )}
             </div>
             <div className="hidden sm:flex flex-col items-start">
               <span className="text-xs font-bold text-primary">{balance.toLocaleString()} CAMLY</span>
-              <span className="text-xs text-muted-foreground">{walletAddress}</span>
+              <span className="text-xs text-muted-foreground">{shortenAddress(walletAddress)}</span>
             </div>
           </div>
           <ChevronDown className="h-4 w-4 text-muted-foreground" />
         </Button>
       </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="w-56">
+      <DropdownMenuContent align="end" className="w-64">
         <div className="p-2">
           <p className="text-sm font-medium">Số dư CAMLY COIN</p>
           <p className="text-2xl font-bold text-primary">{balance.toLocaleString()}</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            {wallet.status === 'connected'
+              ? wallet.chain?.name || `Mạng không hỗ trợ (chain ${wallet.chainId ?? '?'})`
+              : 'Ví chưa mở trên trình duyệt này'}
+          </p>
         </div>
+        {isWrongNetwork && (
+          <DropdownMenuItem onClick={switchNetwork} className="text-destructive">
+            <AlertTriangle className="mr-2 h-4 w-4" />
+            Chuyển sang {DEFAULT_CHAIN.name}
+          </DropdownMenuItem>
+        )}
+        {isOtherAccount && (
+          <div className="px-2 pb-2 text-xs text-destructive">
+            Ví đang chọn tài khoản {shortenAddress(wallet.address!)}, khác với ví đã liên kết
+          </div>
+        )}
+        {wallet.status === 'disconnected' && (
+          <DropdownMenuItem onClick={reconnectWallet}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Mở ví
+          </DropdownMenuItem>
+        )}
         <DropdownMenuSeparator />
         <DropdownMenuItem onClick={copyAddress}>
           <Copy className="mr-2 h-4 w-4" />
           Sao chép địa chỉ
         </DropdownMenuItem>
-        <DropdownMenuItem>
+        <DropdownMenuItem onClick={openExplorer} disabled={!explorerUrl}>
           <ExternalLink className="mr-2 h-4 w-4" />
           Xem trên Explorer
         </DropdownMenuItem>
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { endOAuthSessions, signInWithWallet as signInWithWalletApi } from '@/lib/api';
+import { signSiweMessage } from '@/lib/siwe';
 
 interface Profile {
   id: string;
@@ -18,6 +20,7 @@ interface AuthContextType {
   loading: boolean;
   signUp: (email: string, password: string, displayName?: string) => Promise<{ error: Error | null }>;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
+  signInWithWallet: () => Promise<{ error: Error | null; created?: boolean }>;
   signOut: () => Promise<void>;
   refreshProfile: () => Promise<void>;
 }
@@ -115,13 +118,34 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return { error: error as Error | null };
   };
 
+  const signInWithWallet = async () => {
+    try {
+      const siwe = await signSiweMessage();
+      const { data, error } = await signInWithWalletApi({ message: siwe.message, signature: siwe.signature });
+      if (error || !data) {
+        return { error: new Error(error || 'Wallet sign-in failed') };
+      }
+
+      const { error: sessionError } = await supabase.auth.setSession({
+        access_token: data.session.access_token,
+        refresh_token: data.session.refresh_token,
+      });
+
+      return { error: sessionError as Error | null, created: data.created };
+    } catch (error) {
+      return { error: error instanceof Error ? error : new Error('Wallet sign-in failed') };
+    }
+  };
+
   const signOut = async () => {
+    // Best effort: sign-out must still succeed if the worker is unreachable
+    await endOAuthSessions();
     await supabase.auth.signOut();
     setProfile(null);
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, profile, loading, signUp, signIn, signOut, refreshProfile }}>
+    <AuthContext.Provider value={{ user, session, profile, loading, signUp, signIn, signInWithWallet, signOut, refreshProfile }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,71 @@
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getCamlyBalance, getCamlyTransactions, getCheckInStatus, checkIn } from '@/lib/api';
+import { useToast } from '@/hooks/use-toast';
+
+export function useCamlyBalance(enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['camly', 'balance'],
+    queryFn: async () => {
+      const { data, error } = await getCamlyBalance();
+      if (error) throw new Error(error);
+      return data?.balance ?? 0;
+    },
+    enabled,
+  });
+}
+
+export function useCamlyTransactions(limit: number = 20, enabled: boolean = true) {
+  return useInfiniteQuery({
+    queryKey: ['camly', 'transactions'],
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await getCamlyTransactions(limit, 0, pageParam);
+      if (error) throw new Error(error);
+      return data;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage?.next_cursor ?? undefined,
+    enabled,
+  });
+}
+
+export function useCheckInStatus(enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['camly', 'check-in'],
+    queryFn: async () => {
+      const { data, error } = await getCheckInStatus();
+      if (error) throw new Error(error);
+      return data;
+    },
+    enabled,
+  });
+}
+
+export function useCheckIn() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data, error } = await checkIn();
+      if (error) throw new Error(error);
+      return data;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: `+${data?.reward.toLocaleString()} CAMLY`,
+        description: `Điểm danh thành công! Chuỗi ${data?.streak} ngày liên tiếp`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Lỗi',
+        description: error.message || 'Không thể điểm danh',
+        variant: 'destructive',
+      });
+    },
+    onSettled: () => {
+      // Balance, history and streak all change together
+      queryClient.invalidateQueries({ queryKey: ['camly'] });
+    },
+  });
+}
@@ -23,12 +23,7 @@ export function useInfiniteMessages(conversationId: string, limit: number = 50)
       return data;
     },
     initialPageParam: undefined as string | undefined,
-    getNextPageParam: (lastPage) => {
-      if (!lastPage?.messages?.length || lastPage.messages.length < limit) {
-        return undefined;
-      }
-      return lastPage.messages[0]?.created_at;
-    },
+    getNextPageParam: (lastPage) => lastPage?.next_cursor ?? undefined,
     enabled: !!conversationId,
   });
 }
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQuery, useInfiniteQuery, useQueryClient, InfiniteData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { getPosts, getPost, getUserPosts, Post } from '@/lib/api';
+
+export const FEED_QUERY_KEY = ['posts', 'feed'];
+
+type FeedPage = NonNullable<Awaited<ReturnType<typeof getPosts>>['data']>;
+
+export function useInfinitePosts(limit: number = 20) {
+  return useInfiniteQuery({
+    queryKey: FEED_QUERY_KEY,
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await getPosts(limit, 0, pageParam);
+      if (error) throw new Error(error);
+      return data as FeedPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.next_cursor ?? undefined,
+    // New posts come in through the banner, never by refetching under the reader
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useUserPosts(userId: string | undefined, limit: number = 20) {
+  return useInfiniteQuery({
+    queryKey: ['posts', 'user', userId],
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await getUserPosts(userId!, limit, pageParam);
+      if (error) throw new Error(error);
+      return data as FeedPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.next_cursor ?? undefined,
+    enabled: !!userId,
+  });
+}
+
+export function usePost(postId: string | undefined) {
+  return useQuery({
+    queryKey: ['posts', postId],
+    queryFn: async () => {
+      const { data, error } = await getPost(postId!);
+      if (error) throw new Error(error);
+      return data?.post ?? null;
+    },
+    enabled: !!postId,
+    retry: false,
+  });
+}
+
+/**
+ * Edit a cached post list in place (new, edited or deleted posts)
+ * Defaults to the home feed; pass ['posts', 'user', id] for a profile's posts.
+ */
+export function useUpdateFeedCache(queryKey: readonly unknown[] = FEED_QUERY_KEY) {
+  const queryClient = useQueryClient();
+
+  return useCallback((update: (posts: Post[], pageIndex: number) => Post[]) => {
+    queryClient.setQueryData<InfiniteData<FeedPage>>(queryKey, (old) => {
+      if (!old) return old;
+      return {
+        ...old,
+        pages: old.pages.map((page, index) => ({ ...page, posts: update(page.posts, index) })),
+      };
+    });
+  }, [queryClient, queryKey]);
+}
+
+/**
+ * Count posts created by others since the feed was loaded
+ * The feed is not changed until the user asks for them, so the list never jumps.
+ */
+export function useNewPostsCount(currentUserId?: string) {
+  const [newPostIds, setNewPostIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel('posts-feed')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'posts',
+        },
+        (payload: { new: { id: string; user_id: string } }) => {
+          // Our own posts are added to the feed directly by CreatePost
+          if (payload.new.user_id === currentUserId) return;
+          setNewPostIds((ids) => (ids.includes(payload.new.id) ? ids : [...ids, payload.new.id]));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [currentUserId]);
+
+  const reset = useCallback(() => setNewPostIds([]), []);
+
+  return { count: newPostIds.length, reset };
+}
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { getProfile } from '@/lib/api';
+
+export function usePublicProfile(userId: string | undefined) {
+  return useQuery({
+    queryKey: ['profiles', userId],
+    queryFn: async () => {
+      const { data, error } = await getProfile(userId!);
+      if (error) throw new Error(error);
+      return data?.profile ?? null;
+    },
+    enabled: !!userId,
+    retry: false,
+  });
+}
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getEthereumProvider, isUserRejection, ProviderRpcError } from '@/lib/ethereum';
+import { ChainConfig, getChain, isSupportedChain, toHexChainId } from '@/lib/chains';
+
+// Set after an explicit connect, so reloads reconnect silently without prompting strangers
+const RECONNECT_KEY = 'funprofile.wallet.connected';
+
+export type WalletStatus = 'unavailable' | 'disconnected' | 'connecting' | 'connected';
+
+export interface WalletState {
+  status: WalletStatus;
+  address: string | null;
+  chainId: number | null;
+  chain: ChainConfig | null;
+  isSupportedChain: boolean;
+  connect: () => Promise<string | null>;
+  disconnect: () => void;
+  switchChain: (chain: ChainConfig) => Promise<boolean>;
+}
+
+const parseChainId = (value: unknown) => (typeof value === 'string' ? parseInt(value, 16) : null);
+
+/**
+ * Injected wallet (EIP-1193) connection state
+ * Follows accountsChanged/chainChanged, so the UI always reflects what the wallet has selected.
+ */
+export function useWallet(): WalletState {
+  const [status, setStatus] = useState<WalletStatus>(() => (getEthereumProvider() ? 'disconnected' : 'unavailable'));
+  const [address, setAddress] = useState<string | null>(null);
+  const [chainId, setChainId] = useState<number | null>(null);
+
+  const applyAccounts = useCallback((accounts: unknown) => {
+    const account = Array.isArray(accounts) && typeof accounts[0] === 'string' ? accounts[0] : null;
+    setAddress(account);
+    setStatus(account ? 'connected' : 'disconnected');
+    if (!account) {
+      localStorage.removeItem(RECONNECT_KEY);
+    }
+  }, []);
+
+  useEffect(() => {
+    const ethereum = getEthereumProvider();
+    if (!ethereum) return;
+
+    const handleChainChanged = (value: unknown) => setChainId(parseChainId(value));
+
+    ethereum.on?.('accountsChanged', applyAccounts);
+    ethereum.on?.('chainChanged', handleChainChanged);
+
+    ethereum.request({ method: 'eth_chainId' }).then(handleChainChanged).catch(() => setChainId(null));
+
+    // eth_accounts never prompts: it only returns accounts the site was already granted
+    if (localStorage.getItem(RECONNECT_KEY)) {
+      ethereum.request({ method: 'eth_accounts' }).then(applyAccounts).catch(() => applyAccounts([]));
+    }
+
+    return () => {
+      ethereum.removeListener?.('accountsChanged', applyAccounts);
+      ethereum.removeListener?.('chainChanged', handleChainChanged);
+    };
+  }, [applyAccounts]);
+
+  const connect = useCallback(async () => {
+    const ethereum = getEthereumProvider();
+    if (!ethereum) {
+      throw new Error('Không tìm thấy ví. Vui lòng cài đặt MetaMask hoặc ví tương thích.');
+    }
+
+    setStatus('connecting');
+    try {
+      const accounts = await ethereum.request({ method: 'eth_requestAccounts' });
+      setChainId(parseChainId(await ethereum.request({ method: 'eth_chainId' })));
+      applyAccounts(accounts);
+      localStorage.setItem(RECONNECT_KEY, '1');
+      return Array.isArray(accounts) ? (accounts[0] as string) ?? null : null;
+    } catch (error) {
+      setStatus('disconnected');
+      if (isUserRejection(error)) return null;
+      throw error;
+    }
+  }, [applyAccounts]);
+
+  // EIP-1193 has no disconnect; forgetting the account locally is what dapps do
+  const disconnect = useCallback(() => {
+    localStorage.removeItem(RECONNECT_KEY);
+    setAddress(null);
+    setStatus(getEthereumProvider() ? 'disconnected' : 'unavailable');
+  }, []);
+
+  const switchChain = useCallback(async (chain: ChainConfig) => {
+    const ethereum = getEthereumProvider();
+    if (!ethereum) return false;
+
+    try {
+      await ethereum.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: toHexChainId(chain.id) }] });
+      return true;
+    } catch (error) {
+      // 4902: the wallet does not know the chain yet (always the case for a fresh Anvil/Hardhat node)
+      if ((error as ProviderRpcError).code !== 4902) return false;
+    }
+
+    try {
+      await ethereum.request({
+        method: 'wallet_addEthereumChain',
+        params: [{
+          chainId: toHexChainId(chain.id),
+          chainName: chain.name,
+          nativeCurrency: chain.nativeCurrency,
+          rpcUrls: [chain.rpcUrl],
+          blockExplorerUrls: chain.blockExplorerUrl ? [chain.blockExplorerUrl] : undefined,
+        }],
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }, []);
+
+  return {
+    status,
+    address,
+    chainId,
+    chain: getChain(chainId),
+    isSupportedChain: isSupportedChain(chainId),
+    connect,
+    disconnect,
+    switchChain,
+  };
+}
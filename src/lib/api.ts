@@ -26,6 +26,17 @@ interface Profile {
   updated_at: string;
 }
 
+export interface PublicProfile {
+  id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  bio: string | null;
+  wallet_address: string | null;
+  camly_balance: number | null;
+  created_at: string;
+  post_count: number;
+}
+
 interface ProfileUpdateData {
   display_name?: string;
   bio?: string;
@@ -195,6 +206,8 @@ export interface Post {
   likes_count: number;
   comments_count: number;
   shares_count: number;
+  tip_total: number;
+  tipper_count: number;
   created_at: string;
   updated_at: string;
   author?: {
@@ -209,6 +222,7 @@ interface PostsResponse {
   total: number;
   limit: number;
   offset: number;
+  next_cursor: string | null;
 }
 
 interface CreatePostData {
@@ -226,14 +240,25 @@ interface UpdatePostData {
 }
 
 /**
- * Fetch public posts (no auth required)
+ * Build the paging part of a list URL
+ * Pass the previous page's next_cursor; offset paging is deprecated.
+ */
+function pageParams(limit: number, offset: number, cursor?: string | null): string {
+  return cursor
+    ? `limit=${limit}&cursor=${encodeURIComponent(cursor)}`
+    : `limit=${limit}&offset=${offset}`;
+}
+
+/**
+ * Fetch public posts, newest first (no auth required)
  */
 export async function getPosts(
   limit: number = 20,
-  offset: number = 0
+  offset: number = 0,
+  cursor?: string | null
 ): Promise<ApiResponse<PostsResponse>> {
   try {
-    const url = `${API_BASE_URL}/api/posts?limit=${limit}&offset=${offset}`;
+    const url = `${API_BASE_URL}/api/posts?${pageParams(limit, offset, cursor)}`;
     const response = await fetch(url);
     const json = await response.json();
 
@@ -254,6 +279,92 @@ export async function getPosts(
   }
 }
 
+/**
+ * Fetch a single post by id (no auth required)
+ */
+export async function getPost(
+  postId: string
+): Promise<ApiResponse<{ post: Post }>> {
+  try {
+    const url = `${API_BASE_URL}/api/posts/${postId}`;
+    const response = await fetch(url);
+    const json = await response.json();
+
+    if (!response.ok) {
+      return { 
+        data: null, 
+        error: json.error || `Request failed with status ${response.status}` 
+      };
+    }
+
+    return { data: json as { post: Post }, error: null };
+  } catch (error) {
+    console.error('API request failed:', error);
+    return { 
+      data: null, 
+      error: error instanceof Error ? error.message : 'Network error' 
+    };
+  }
+}
+
+/**
+ * Fetch anyone's public profile (no auth required)
+ */
+export async function getProfile(
+  userId: string
+): Promise<ApiResponse<{ profile: PublicProfile }>> {
+  try {
+    const url = `${API_BASE_URL}/api/profiles/${userId}`;
+    const response = await fetch(url);
+    const json = await response.json();
+
+    if (!response.ok) {
+      return { 
+        data: null, 
+        error: json.error || `Request failed with status ${response.status}` 
+      };
+    }
+
+    return { data: json as { profile: PublicProfile }, error: null };
+  } catch (error) {
+    console.error('API request failed:', error);
+    return { 
+      data: null, 
+      error: error instanceof Error ? error.message : 'Network error' 
+    };
+  }
+}
+
+/**
+ * Fetch one user's posts, newest first (no auth required)
+ */
+export async function getUserPosts(
+  userId: string,
+  limit: number = 20,
+  cursor?: string | null
+): Promise<ApiResponse<Omit<PostsResponse, 'offset'>>> {
+  try {
+    const url = `${API_BASE_URL}/api/profiles/${userId}/posts?${pageParams(limit, 0, cursor)}`;
+    const response = await fetch(url);
+    const json = await response.json();
+
+    if (!response.ok) {
+      return { 
+        data: null, 
+        error: json.error || `Request failed with status ${response.status}` 
+      };
+    }
+
+    return { data: json as Omit<PostsResponse, 'offset'>, error: null };
+  } catch (error) {
+    console.error('API request failed:', error);
+    return { 
+      data: null, 
+      error: error instanceof Error ? error.message : 'Network error' 
+    };
+  }
+}
+
 /**
  * Create a new post (requires auth)
  */
@@ -332,6 +443,8 @@ export interface Comment {
   post_id: string;
   user_id: string;
   content: string;
+  tip_total: number;
+  tipper_count: number;
   created_at: string;
   updated_at: string;
   author?: {
@@ -346,18 +459,20 @@ interface CommentsResponse {
   total: number;
   limit: number;
   offset: number;
+  next_cursor: string | null;
 }
 
 /**
- * Get comments for a post (public)
+ * Get comments for a post, oldest first (public)
  */
 export async function getComments(
   postId: string,
   limit: number = 20,
-  offset: number = 0
+  offset: number = 0,
+  cursor?: string | null
 ): Promise<ApiResponse<CommentsResponse>> {
   try {
-    const url = `${API_BASE_URL}/api/posts/${postId}/comments?limit=${limit}&offset=${offset}`;
+    const url = `${API_BASE_URL}/api/posts/${postId}/comments?${pageParams(limit, offset, cursor)}`;
     const response = await fetch(url);
     const json = await response.json();
 
@@ -402,6 +517,46 @@ export async function deleteComment(
   });
 }
 
+export interface TipResult {
+  tip: {
+    id: string;
+    amount: number;
+    created_at: string;
+  };
+  tip_total: number;
+  tipper_count: number;
+  balance: number;
+}
+
+/**
+ * Tip a post's author with CAMLY (requires auth)
+ * Reuse the idempotency key when retrying, so the tip is sent only once.
+ */
+export async function tipPost(
+  postId: string,
+  amount: number,
+  idempotencyKey: string
+): Promise<ApiResponse<TipResult>> {
+  return fetchWithAuth<TipResult>(`/api/posts/${postId}/tip`, {
+    method: 'POST',
+    body: JSON.stringify({ amount, idempotency_key: idempotencyKey }),
+  });
+}
+
+/**
+ * Tip a comment's author with CAMLY (requires auth)
+ */
+export async function tipComment(
+  commentId: string,
+  amount: number,
+  idempotencyKey: string
+): Promise<ApiResponse<TipResult>> {
+  return fetchWithAuth<TipResult>(`/api/comments/${commentId}/tip`, {
+    method: 'POST',
+    body: JSON.stringify({ amount, idempotency_key: idempotencyKey }),
+  });
+}
+
 // ========== MESSAGING API ==========
 
 export interface Conversation {
@@ -451,6 +606,7 @@ interface MessagesResponse {
   messages: Message[];
   total: number;
   limit: number;
+  next_cursor: string | null;
 }
 
 interface CreateConversationData {
@@ -492,15 +648,16 @@ export async function createConversation(
 
 /**
  * Get messages in a conversation
+ * Returns the newest page; pass next_cursor to load older messages.
  */
 export async function getMessages(
   conversationId: string,
   limit: number = 50,
-  before?: string
+  cursor?: string | null
 ): Promise<ApiResponse<MessagesResponse>> {
   let url = `/api/conversations/${conversationId}/messages?limit=${limit}`;
-  if (before) {
-    url += `&before=${encodeURIComponent(before)}`;
+  if (cursor) {
+    url += `&cursor=${encodeURIComponent(cursor)}`;
   }
   return fetchWithAuth<MessagesResponse>(url, {
     method: 'GET',
@@ -807,3 +964,387 @@ export async function uploadVideo(
     };
   }
 }
+
+// ========== OAUTH (FUN-ID SSO) API ==========
+
+export interface OAuthAuthorizeParams {
+  client_id: string;
+  redirect_uri: string;
+  scope: string;
+  state: string;
+  code_challenge: string;
+  code_challenge_method: string;
+  nonce?: string;
+  prompt?: string;
+  max_age?: string;
+  login_hint?: string;
+  id_token_hint?: string;
+}
+
+export interface OAuthConsentDecision extends OAuthAuthorizeParams {
+  approved: boolean;
+}
+
+export interface OAuthSessionResult {
+  consent_required: boolean;
+  login_required?: boolean;
+  reason?: string;
+  redirect_uri?: string;
+  client_name?: string;
+  logo_uri?: string | null;
+  granted_scopes?: string[];
+  new_scopes?: string[];
+}
+
+/**
+ * Evaluate an authorization request against the current sign-in and stored consent
+ * Works signed out too, so prompt=none can redirect back with login_required.
+ * When nothing needs the user, the worker issues a code and returns the client redirect URL.
+ */
+export async function startOAuthSession(
+  params: OAuthAuthorizeParams
+): Promise<ApiResponse<OAuthSessionResult>> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    const response = await fetch(`${API_BASE_URL}/oauth/authorize/session`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {}),
+      },
+      body: JSON.stringify(params),
+    });
+
+    const json = await response.json();
+
+    if (!response.ok) {
+      return {
+        data: null,
+        error: json.error_description || json.error || `Request failed with status ${response.status}`,
+      };
+    }
+
+    return { data: json as OAuthSessionResult, error: null };
+  } catch (error) {
+    console.error('API request failed:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Network error',
+    };
+  }
+}
+
+/**
+ * Submit the user's consent decision for an OAuth authorization request
+ * Returns the client redirect URL (with code, or error=access_denied when denied)
+ */
+export async function submitOAuthConsent(
+  decision: OAuthConsentDecision
+): Promise<ApiResponse<{ redirect_uri: string }>> {
+  return fetchWithAuth<{ redirect_uri: string }>('/oauth/authorize/callback', {
+    method: 'POST',
+    body: JSON.stringify(decision),
+  });
+}
+
+export interface DeviceAuthorizationRequest {
+  user_code: string;
+  client_id: string;
+  client_name: string;
+  logo_uri: string | null;
+  scopes: string[];
+}
+
+/**
+ * Look up the app behind a device user_code (RFC 8628 verification page)
+ */
+export async function getDeviceAuthorization(
+  userCode: string
+): Promise<ApiResponse<DeviceAuthorizationRequest>> {
+  return fetchWithAuth<DeviceAuthorizationRequest>('/oauth/device/session', {
+    method: 'POST',
+    body: JSON.stringify({ user_code: userCode }),
+  });
+}
+
+/**
+ * Approve or deny a device; the device picks up the result on its next poll
+ */
+export async function submitDeviceConsent(
+  userCode: string,
+  approved: boolean
+): Promise<ApiResponse<{ success: boolean; approved: boolean }>> {
+  return fetchWithAuth<{ success: boolean; approved: boolean }>('/oauth/device/callback', {
+    method: 'POST',
+    body: JSON.stringify({ user_code: userCode, approved }),
+  });
+}
+
+/**
+ * End the user's sessions with every OAuth client application
+ * Called on sign-out so connected apps receive back-channel logout
+ */
+export async function endOAuthSessions(): Promise<ApiResponse<{ success: boolean; sessions_ended: number }>> {
+  return fetchWithAuth<{ success: boolean; sessions_ended: number }>('/oauth/sessions/logout', {
+    method: 'POST',
+  });
+}
+
+// ========== DEVELOPER APPS API ==========
+
+export interface DeveloperApp {
+  client_id: string;
+  client_name: string;
+  redirect_uris: string[];
+  post_logout_redirect_uris: string[];
+  backchannel_logout_uri: string | null;
+  grant_types: string[];
+  scope: string;
+  token_endpoint_auth_method: 'client_secret_basic' | 'client_secret_post' | 'none';
+  logo_uri: string | null;
+  client_uri: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export type DeveloperAppInput = Partial<Omit<DeveloperApp, 'client_id' | 'is_active' | 'created_at'>>;
+
+/**
+ * List the OAuth apps created by the current user
+ */
+export async function getDeveloperApps(): Promise<ApiResponse<{ apps: DeveloperApp[] }>> {
+  return fetchWithAuth<{ apps: DeveloperApp[] }>('/api/developer/apps');
+}
+
+/**
+ * Create an OAuth app; client_secret is returned only in this response
+ */
+export async function createDeveloperApp(
+  input: DeveloperAppInput
+): Promise<ApiResponse<{ success: boolean; app: DeveloperApp; client_secret: string | null }>> {
+  return fetchWithAuth<{ success: boolean; app: DeveloperApp; client_secret: string | null }>('/api/developer/apps', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Update an OAuth app's settings or (de)activate it
+ */
+export async function updateDeveloperApp(
+  clientId: string,
+  changes: DeveloperAppInput & { is_active?: boolean }
+): Promise<ApiResponse<{ success: boolean; app: DeveloperApp; client_secret: string | null }>> {
+  return fetchWithAuth<{ success: boolean; app: DeveloperApp; client_secret: string | null }>(
+    `/api/developer/apps/${encodeURIComponent(clientId)}`,
+    {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    }
+  );
+}
+
+/**
+ * Replace an app's client secret; the old secret stops working immediately
+ */
+export async function rotateDeveloperAppSecret(
+  clientId: string
+): Promise<ApiResponse<{ success: boolean; client_secret: string }>> {
+  return fetchWithAuth<{ success: boolean; client_secret: string }>(
+    `/api/developer/apps/${encodeURIComponent(clientId)}/secret`,
+    { method: 'POST' }
+  );
+}
+
+// ========== CONNECTED APPS API ==========
+
+export interface ConnectedApp {
+  client_id: string;
+  client_name: string;
+  logo_uri: string | null;
+  client_uri: string | null;
+  scopes: string[];
+  first_used_at: string;
+  last_used_at: string;
+  active_tokens: number;
+}
+
+/**
+ * List the apps the current user has granted access to
+ */
+export async function getConnectedApps(): Promise<ApiResponse<{ apps: ConnectedApp[] }>> {
+  return fetchWithAuth<{ apps: ConnectedApp[] }>('/api/connected-apps');
+}
+
+/**
+ * Remove an app's access: revokes the consent and all of its refresh tokens
+ */
+export async function revokeConnectedApp(clientId: string): Promise<ApiResponse<{ success: boolean }>> {
+  return fetchWithAuth<{ success: boolean }>(`/api/connected-apps/${encodeURIComponent(clientId)}`, {
+    method: 'DELETE',
+  });
+}
+
+// ========== WALLET (SIWE) API ==========
+
+export interface SiweSignature {
+  message: string;
+  signature: string;
+}
+
+export interface WalletSession {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  expires_at?: number;
+  token_type: string;
+}
+
+/**
+ * Get a single-use nonce for a Sign-In With Ethereum message (no auth required)
+ */
+export async function getSiweNonce(): Promise<ApiResponse<{ nonce: string; expires_at: string }>> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/siwe/nonce`);
+    const json = await response.json();
+
+    if (!response.ok) {
+      return {
+        data: null,
+        error: json.error || `Request failed with status ${response.status}`
+      };
+    }
+
+    return { data: json as { nonce: string; expires_at: string }, error: null };
+  } catch (error) {
+    console.error('API request failed:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Network error'
+    };
+  }
+}
+
+/**
+ * Sign in with a signed SIWE message (no auth required)
+ * Creates an account on the first sign-in with a new wallet.
+ */
+export async function signInWithWallet(
+  siwe: SiweSignature
+): Promise<ApiResponse<{ success: boolean; created: boolean; wallet_address: string; session: WalletSession }>> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/siwe/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(siwe),
+    });
+    const json = await response.json();
+
+    if (!response.ok) {
+      return {
+        data: null,
+        error: json.error || `Request failed with status ${response.status}`
+      };
+    }
+
+    return { data: json, error: null };
+  } catch (error) {
+    console.error('API request failed:', error);
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Network error'
+    };
+  }
+}
+
+/**
+ * Link the wallet that signed the SIWE message to the current user's profile
+ */
+export async function linkWallet(
+  siwe: SiweSignature
+): Promise<ApiResponse<{ success: boolean; wallet_address: string }>> {
+  return fetchWithAuth<{ success: boolean; wallet_address: string }>('/api/siwe/link', {
+    method: 'POST',
+    body: JSON.stringify(siwe),
+  });
+}
+
+/**
+ * Remove the linked wallet from the current user's profile
+ */
+export async function unlinkWallet(): Promise<ApiResponse<{ success: boolean }>> {
+  return fetchWithAuth<{ success: boolean }>('/api/siwe/link', { method: 'DELETE' });
+}
+
+// ========== CAMLY COIN API ==========
+
+export type CamlyTransactionType = 'reward' | 'tip' | 'check_in' | 'withdrawal' | 'adjustment';
+
+export interface CamlyTransaction {
+  id: string;
+  type: CamlyTransactionType;
+  direction: 'in' | 'out';
+  amount: number;
+  description: string | null;
+  counterparty: {
+    id: string;
+    display_name: string | null;
+    avatar_url: string | null;
+  } | null;
+  created_at: string;
+}
+
+export interface CamlyTransactionsResponse {
+  transactions: CamlyTransaction[];
+  total: number;
+  limit: number;
+  offset: number;
+  next_cursor: string | null;
+}
+
+/**
+ * Get the current user's CAMLY balance, derived from the ledger
+ */
+export async function getCamlyBalance(): Promise<ApiResponse<{ balance: number }>> {
+  return fetchWithAuth<{ balance: number }>('/api/camly/balance', { method: 'GET' });
+}
+
+/**
+ * Get the current user's CAMLY transactions, newest first
+ */
+export async function getCamlyTransactions(
+  limit: number = 20,
+  offset: number = 0,
+  cursor?: string | null
+): Promise<ApiResponse<CamlyTransactionsResponse>> {
+  return fetchWithAuth<CamlyTransactionsResponse>(`/api/camly/transactions?${pageParams(limit, offset, cursor)}`, {
+    method: 'GET',
+  });
+}
+
+export interface CheckInStatus {
+  checked_in_today: boolean;
+  streak: number;
+  next_reward: number;
+  next_check_in_at: string;
+  timezone: string;
+}
+
+export interface CheckInResult extends CheckInStatus {
+  reward: number;
+}
+
+/**
+ * Get the current user's daily check-in streak and next reward
+ */
+export async function getCheckInStatus(): Promise<ApiResponse<CheckInStatus>> {
+  return fetchWithAuth<CheckInStatus>('/api/camly/check-in', { method: 'GET' });
+}
+
+/**
+ * Check in for today and collect the CAMLY reward
+ */
+export async function checkIn(): Promise<ApiResponse<CheckInResult>> {
+  return fetchWithAuth<CheckInResult>('/api/camly/check-in', { method: 'POST' });
+}
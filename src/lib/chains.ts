@@ -0,0 +1,83 @@
+/**
+ * Chains the wallet integration supports
+ *
+ * VITE_SUPPORTED_CHAIN_IDS picks which of the known chains are enabled
+ * (comma-separated, the first one is the default). Each chain's block
+ * explorer can be overridden with VITE_EXPLORER_URL_<chainId>, e.g. an
+ * Otterscan instance in front of a local Anvil node.
+ */
+
+export interface ChainConfig {
+  id: number;
+  name: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrl: string;
+  blockExplorerUrl: string | null;
+}
+
+const KNOWN_CHAINS: ChainConfig[] = [
+  {
+    id: 56,
+    name: 'BNB Smart Chain',
+    nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+    rpcUrl: 'https://bsc-dataseed.bnbchain.org',
+    blockExplorerUrl: 'https://bscscan.com',
+  },
+  {
+    id: 97,
+    name: 'BNB Smart Chain Testnet',
+    nativeCurrency: { name: 'tBNB', symbol: 'tBNB', decimals: 18 },
+    rpcUrl: 'https://data-seed-prebsc-1-s1.bnbchain.org:8545',
+    blockExplorerUrl: 'https://testnet.bscscan.com',
+  },
+  {
+    id: 1,
+    name: 'Ethereum',
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrl: 'https://cloudflare-eth.com',
+    blockExplorerUrl: 'https://etherscan.io',
+  },
+  {
+    // Anvil and Hardhat both default to chain ID 31337
+    id: 31337,
+    name: 'Localhost',
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrl: 'http://127.0.0.1:8545',
+    blockExplorerUrl: null,
+  },
+];
+
+const DEFAULT_CHAIN_IDS = import.meta.env.DEV ? '56,97,31337' : '56';
+
+function withExplorerOverride(chain: ChainConfig): ChainConfig {
+  const override = import.meta.env[`VITE_EXPLORER_URL_${chain.id}`] as string | undefined;
+  return override ? { ...chain, blockExplorerUrl: override.replace(/\/+$/, '') } : chain;
+}
+
+export const SUPPORTED_CHAINS: ChainConfig[] = (import.meta.env.VITE_SUPPORTED_CHAIN_IDS || DEFAULT_CHAIN_IDS)
+  .split(',')
+  .map((id: string) => KNOWN_CHAINS.find((chain) => chain.id === Number(id.trim())))
+  .filter((chain: ChainConfig | undefined): chain is ChainConfig => !!chain)
+  .map(withExplorerOverride);
+
+export const DEFAULT_CHAIN: ChainConfig = SUPPORTED_CHAINS[0] || KNOWN_CHAINS[0];
+
+export function getChain(chainId: number | null): ChainConfig | null {
+  return SUPPORTED_CHAINS.find((chain) => chain.id === chainId) || null;
+}
+
+export function isSupportedChain(chainId: number | null): boolean {
+  return getChain(chainId) !== null;
+}
+
+/**
+ * Explorer page for an address, or null when the chain has no explorer configured
+ */
+export function getAddressExplorerUrl(chainId: number | null, address: string): string | null {
+  const explorer = getChain(chainId)?.blockExplorerUrl;
+  return explorer ? `${explorer}/address/${address}` : null;
+}
+
+export function toHexChainId(chainId: number): string {
+  return `0x${chainId.toString(16)}`;
+}
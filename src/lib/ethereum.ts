@@ -0,0 +1,27 @@
+/**
+ * EIP-1193 injected provider (MetaMask, Trust Wallet, Rabby, ...)
+ */
+
+export interface EthereumProvider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+  on?(event: string, listener: (...args: unknown[]) => void): void;
+  removeListener?(event: string, listener: (...args: unknown[]) => void): void;
+}
+
+export interface ProviderRpcError extends Error {
+  code: number;
+}
+
+declare global {
+  interface Window {
+    ethereum?: EthereumProvider;
+  }
+}
+
+export function getEthereumProvider(): EthereumProvider | null {
+  return typeof window !== 'undefined' && window.ethereum ? window.ethereum : null;
+}
+
+export function isUserRejection(error: unknown): boolean {
+  return (error as ProviderRpcError | null)?.code === 4001;
+}
@@ -0,0 +1,99 @@
+/**
+ * Sign-In With Ethereum (EIP-4361)
+ *
+ * Builds the message the wallet signs. The worker parses it back, checks
+ * the signature and burns the nonce, so the format here must match the spec.
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { getSiweNonce } from '@/lib/api';
+import { getEthereumProvider, isUserRejection } from '@/lib/ethereum';
+
+export interface SignedSiweMessage {
+  message: string;
+  signature: string;
+  address: string;
+}
+
+const SIWE_STATEMENT = 'Đăng nhập Fun Profile bằng ví của bạn';
+
+/**
+ * Format an EIP-4361 message; the address must already be EIP-55 checksummed
+ */
+export function createSiweMessage(params: {
+  address: string;
+  chainId: number;
+  nonce: string;
+  statement?: string;
+}): string {
+  const { host, origin } = window.location;
+
+  return [
+    `${host} wants you to sign in with your Ethereum account:`,
+    params.address,
+    '',
+    params.statement || SIWE_STATEMENT,
+    '',
+    `URI: ${origin}`,
+    'Version: 1',
+    `Chain ID: ${params.chainId}`,
+    `Nonce: ${params.nonce}`,
+    `Issued At: ${new Date().toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * Ask the injected wallet to sign a fresh SIWE message
+ * Throws with a user-facing message when there is no wallet or the user rejects.
+ */
+export async function signSiweMessage(): Promise<SignedSiweMessage> {
+  const ethereum = getEthereumProvider();
+  if (!ethereum) {
+    throw new Error('Không tìm thấy ví. Vui lòng cài đặt MetaMask hoặc ví tương thích.');
+  }
+
+  const accounts = await ethereum.request({ method: 'eth_requestAccounts' }) as string[];
+  if (!accounts?.[0]) {
+    throw new Error('Chưa chọn tài khoản ví');
+  }
+
+  const { data: nonceData, error: nonceError } = await getSiweNonce();
+  if (nonceError || !nonceData) {
+    throw new Error(nonceError || 'Không thể tạo nonce');
+  }
+
+  const chainIdHex = await ethereum.request({ method: 'eth_chainId' }) as string;
+
+  // Wallets often return lowercase addresses, but the message needs the checksummed form
+  const address = toChecksumAddress(accounts[0]);
+  const message = createSiweMessage({
+    address,
+    chainId: parseInt(chainIdHex, 16),
+    nonce: nonceData.nonce,
+  });
+
+  try {
+    const signature = await ethereum.request({
+      method: 'personal_sign',
+      params: [message, accounts[0]],
+    }) as string;
+    return { message, signature, address };
+  } catch (error) {
+    throw new Error(isUserRejection(error) ? 'Bạn đã từ chối ký tin nhắn' : 'Không thể ký tin nhắn');
+  }
+}
+
+/**
+ * EIP-55 mixed-case checksum, which EIP-4361 requires for the address line
+ */
+export function toChecksumAddress(address: string): string {
+  const lower = address.toLowerCase().replace(/^0x/, '');
+  const hash = bytesToHex(keccak_256(utf8ToBytes(lower)));
+
+  let result = '0x';
+  for (let i = 0; i < lower.length; i++) {
+    result += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return result;
+}
@@ -1,33 +1,41 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import HeartChakraIcon from '@/components/icons/HeartChakraIcon';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Wallet } from 'lucide-react';
 import { toast } from 'sonner';
 import { z } from 'zod';
 
 const emailSchema = z.string().email('Email không hợp lệ');
 const passwordSchema = z.string().min(6, 'Mật khẩu phải có ít nhất 6 ký tự');
 
+// Only same-origin paths are allowed, so ?redirect= cannot send users off-site
+const getSafeRedirect = (value: string | null) =>
+  value && /^\/(?![/\\])/.test(value) ? value : '/';
+
 const Auth = () => {
+  const [searchParams] = useSearchParams();
   const [isLogin, setIsLogin] = useState(true);
-  const [email, setEmail] = useState('');
+  // OAuth clients may suggest which account to use (login_hint)
+  const [email, setEmail] = useState(searchParams.get('login_hint') || '');
   const [password, setPassword] = useState('');
   const [displayName, setDisplayName] = useState('');
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<{ email?: string; password?: string }>({});
   
-  const { signIn, signUp, user } = useAuth();
+  const { signIn, signUp, signInWithWallet, user } = useAuth();
   const navigate = useNavigate();
+  const redirectTo = getSafeRedirect(searchParams.get('redirect'));
 
   useEffect(() => {
     if (user) {
-      navigate('/');
+      navigate(redirectTo, { replace: true });
     }
-  }, [user, navigate]);
+  }, [user, navigate, redirectTo]);
 
   const validateForm = () => {
     const newErrors: { email?: string; password?: string } = {};
@@ -64,7 +72,7 @@ const Auth = () => {
           }
         } else {
           toast.success('Đăng nhập thành công!');
-          navigate('/');
+          navigate(redirectTo, { replace: true });
         }
       } else {
         const { error } = await signUp(email, password, displayName);
@@ -85,6 +93,20 @@ const Auth = () => {
     }
   };
 
+  const handleWalletSignIn = async () => {
+    setLoading(true);
+    const { error, created } = await signInWithWallet();
+    setLoading(false);
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    toast.success(created ? 'Đã tạo tài khoản bằng ví!' : 'Đăng nhập thành công!');
+    navigate(redirectTo, { replace: true });
+  };
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
       <div className="absolute inset-0 overflow-hidden pointer-events-none">
@@ -169,6 +191,23 @@ const Auth = () => {
               ) : isLogin ? 'Đăng nhập' : 'Đăng ký'}
             </Button>
           </form>
+
+          <div className="flex items-center gap-3 my-4">
+            <div className="h-px flex-1 bg-border" />
+            <span className="text-xs text-muted-foreground">hoặc</span>
+            <div className="h-px flex-1 bg-border" />
+          </div>
+
+          <Button
+            type="button"
+            variant="outline"
+            disabled={loading}
+            onClick={handleWalletSignIn}
+            className="w-full gap-2 border-chakra-primary/30"
+          >
+            <Wallet className="h-4 w-4" />
+            Đăng nhập bằng ví
+          </Button>
           
           <div className="mt-6 text-center">
             <p className="text-muted-foreground text-sm">
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { getConnectedApps, revokeConnectedApp, ConnectedApp } from '@/lib/api';
+import Header from '@/components/layout/Header';
+import LeftSidebar from '@/components/layout/LeftSidebar';
+import { SCOPE_DETAILS } from '@/components/oauth/scopes';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Link2, Unlink } from 'lucide-react';
+import { toast } from 'sonner';
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('vi-VN', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const ConnectedApps = () => {
+  const { user, loading } = useAuth();
+  const [apps, setApps] = useState<ConnectedApp[]>([]);
+  const [loadingApps, setLoadingApps] = useState(true);
+  const [removingApp, setRemovingApp] = useState<ConnectedApp | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchApps();
+    }
+  }, [user]);
+
+  const fetchApps = async () => {
+    setLoadingApps(true);
+    const { data, error } = await getConnectedApps();
+    setLoadingApps(false);
+
+    if (error) {
+      console.error('Error fetching connected apps:', error);
+      toast.error('Không thể tải danh sách ứng dụng');
+      return;
+    }
+
+    setApps(data?.apps || []);
+  };
+
+  const handleRemoveAccess = async () => {
+    if (!removingApp) return;
+    const app = removingApp;
+    setRemovingApp(null);
+
+    const { error } = await revokeConnectedApp(app.client_id);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setApps((prev) => prev.filter((item) => item.client_id !== app.client_id));
+    toast.success(`Đã gỡ quyền truy cập của ${app.client_name}`);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="flex">
+        <LeftSidebar />
+
+        <main className="flex-1 max-w-4xl mx-auto p-6">
+          <div className="mb-6">
+            <h1 className="text-2xl font-bold">Ứng dụng đã kết nối</h1>
+            <p className="text-sm text-muted-foreground">
+              Các ứng dụng bạn đã cho phép đăng nhập bằng FUN-ID
+            </p>
+          </div>
+
+          {loadingApps ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : apps.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                <Link2 className="w-10 h-10 mx-auto mb-3" />
+                <p>Chưa có ứng dụng nào được kết nối</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {apps.map((app) => (
+                <Card key={app.client_id}>
+                  <CardHeader className="flex flex-row items-center gap-4 space-y-0">
+                    <Avatar className="h-12 w-12 rounded-lg">
+                      <AvatarImage src={app.logo_uri || undefined} />
+                      <AvatarFallback className="rounded-lg bg-primary/10 text-primary">
+                        {app.client_name.charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <CardTitle className="text-lg truncate">{app.client_name}</CardTitle>
+                      {app.client_uri && (
+                        <a
+                          href={app.client_uri}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-muted-foreground hover:underline truncate block"
+                        >
+                          {app.client_uri}
+                        </a>
+                      )}
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2 text-destructive hover:bg-destructive/10"
+                      onClick={() => setRemovingApp(app)}
+                    >
+                      <Unlink className="w-4 h-4" />
+                      Gỡ quyền truy cập
+                    </Button>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex flex-wrap gap-2">
+                      {app.scopes.map((scope) => {
+                        const details = SCOPE_DETAILS[scope];
+                        const Icon = details?.icon;
+                        return (
+                          <Badge key={scope} variant="secondary" className="gap-1">
+                            {Icon && <Icon className="w-3 h-3" />}
+                            {details?.label || scope}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs text-muted-foreground">
+                      <span>Lần đầu: {formatDateTime(app.first_used_at)}</span>
+                      <span>Gần nhất: {formatDateTime(app.last_used_at)}</span>
+                      <span>Phiên đang hoạt động: {app.active_tokens}</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </main>
+      </div>
+
+      <AlertDialog open={!!removingApp} onOpenChange={(open) => !open && setRemovingApp(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Gỡ quyền truy cập?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {removingApp?.client_name} sẽ bị đăng xuất và không thể truy cập dữ liệu của bạn nữa.
+              Lần sau dùng ứng dụng này, bạn sẽ cần cấp quyền lại.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Hủy</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRemoveAccess}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Gỡ quyền
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ConnectedApps;
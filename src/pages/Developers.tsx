@@ -0,0 +1,277 @@
+import React, { useEffect, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  getDeveloperApps,
+  createDeveloperApp,
+  updateDeveloperApp,
+  rotateDeveloperAppSecret,
+  DeveloperApp,
+  DeveloperAppInput,
+} from '@/lib/api';
+import Header from '@/components/layout/Header';
+import LeftSidebar from '@/components/layout/LeftSidebar';
+import AppFormDialog from '@/components/developers/AppFormDialog';
+import ClientSecretDialog from '@/components/developers/ClientSecretDialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Code, Copy, KeyRound, Pencil, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+
+const Developers = () => {
+  const { user, loading } = useAuth();
+  const [apps, setApps] = useState<DeveloperApp[]>([]);
+  const [loadingApps, setLoadingApps] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingApp, setEditingApp] = useState<DeveloperApp | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [rotatingApp, setRotatingApp] = useState<DeveloperApp | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<{ clientId: string; clientSecret: string } | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchApps();
+    }
+  }, [user]);
+
+  const fetchApps = async () => {
+    setLoadingApps(true);
+    const { data, error } = await getDeveloperApps();
+    setLoadingApps(false);
+
+    if (error) {
+      console.error('Error fetching developer apps:', error);
+      toast.error('Không thể tải danh sách ứng dụng');
+      return;
+    }
+
+    setApps(data?.apps || []);
+  };
+
+  const replaceApp = (app: DeveloperApp) => {
+    setApps((prev) => prev.map((item) => (item.client_id === app.client_id ? app : item)));
+  };
+
+  const openCreate = () => {
+    setEditingApp(null);
+    setFormOpen(true);
+  };
+
+  const openEdit = (app: DeveloperApp) => {
+    setEditingApp(app);
+    setFormOpen(true);
+  };
+
+  const handleSubmit = async (input: DeveloperAppInput) => {
+    setSubmitting(true);
+    const { data, error } = editingApp
+      ? await updateDeveloperApp(editingApp.client_id, input)
+      : await createDeveloperApp(input);
+    setSubmitting(false);
+
+    if (error || !data?.app) {
+      toast.error(error || 'Không thể lưu ứng dụng');
+      return;
+    }
+
+    if (editingApp) {
+      replaceApp(data.app);
+      toast.success('Đã cập nhật ứng dụng');
+    } else {
+      setApps((prev) => [data.app, ...prev]);
+      toast.success('Đã tạo ứng dụng');
+    }
+    setFormOpen(false);
+
+    // Switching a public app to confidential also issues its first secret
+    if (data.client_secret) {
+      setRevealedSecret({ clientId: data.app.client_id, clientSecret: data.client_secret });
+    }
+  };
+
+  const handleToggleActive = async (app: DeveloperApp, isActive: boolean) => {
+    const { data, error } = await updateDeveloperApp(app.client_id, { is_active: isActive });
+
+    if (error || !data?.app) {
+      toast.error(error || 'Không thể cập nhật trạng thái');
+      return;
+    }
+
+    replaceApp(data.app);
+    toast.success(isActive ? 'Đã kích hoạt ứng dụng' : 'Đã tạm dừng ứng dụng');
+  };
+
+  const handleRotateSecret = async () => {
+    if (!rotatingApp) return;
+    const app = rotatingApp;
+    setRotatingApp(null);
+
+    const { data, error } = await rotateDeveloperAppSecret(app.client_id);
+    if (error || !data?.client_secret) {
+      toast.error(error || 'Không thể tạo secret mới');
+      return;
+    }
+
+    setRevealedSecret({ clientId: app.client_id, clientSecret: data.client_secret });
+  };
+
+  const copyClientId = async (clientId: string) => {
+    try {
+      await navigator.clipboard.writeText(clientId);
+      toast.success('Đã sao chép Client ID');
+    } catch {
+      toast.error('Không thể sao chép');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="flex">
+        <LeftSidebar />
+
+        <main className="flex-1 max-w-4xl mx-auto p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h1 className="text-2xl font-bold">Nhà phát triển</h1>
+              <p className="text-sm text-muted-foreground">
+                Quản lý các ứng dụng đăng nhập bằng FUN-ID của bạn
+              </p>
+            </div>
+            <Button onClick={openCreate} className="gap-2">
+              <Plus className="w-4 h-4" />
+              Tạo ứng dụng
+            </Button>
+          </div>
+
+          {loadingApps ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : apps.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                <Code className="w-10 h-10 mx-auto mb-3" />
+                <p>Bạn chưa có ứng dụng nào</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {apps.map((app) => (
+                <Card key={app.client_id}>
+                  <CardHeader className="flex flex-row items-center gap-4 space-y-0">
+                    <Avatar className="h-12 w-12 rounded-lg">
+                      <AvatarImage src={app.logo_uri || undefined} />
+                      <AvatarFallback className="rounded-lg bg-primary/10 text-primary">
+                        {app.client_name.charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <CardTitle className="text-lg truncate">{app.client_name}</CardTitle>
+                      <div className="flex gap-2 mt-1">
+                        <Badge variant={app.is_active ? 'default' : 'secondary'}>
+                          {app.is_active ? 'Đang hoạt động' : 'Tạm dừng'}
+                        </Badge>
+                        <Badge variant="outline">
+                          {app.token_endpoint_auth_method === 'none' ? 'Public' : 'Confidential'}
+                        </Badge>
+                      </div>
+                    </div>
+                    <Switch
+                      checked={app.is_active}
+                      onCheckedChange={(checked) => handleToggleActive(app, checked)}
+                      aria-label="Kích hoạt ứng dụng"
+                    />
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground">Client ID</span>
+                      <code className="text-xs bg-muted px-2 py-1 rounded truncate">{app.client_id}</code>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => copyClientId(app.client_id)}>
+                        <Copy className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                    {app.redirect_uris.length > 0 && (
+                      <div className="text-xs text-muted-foreground break-all">
+                        {app.redirect_uris.join(', ')}
+                      </div>
+                    )}
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" className="gap-2" onClick={() => openEdit(app)}>
+                        <Pencil className="w-4 h-4" />
+                        Chỉnh sửa
+                      </Button>
+                      {app.token_endpoint_auth_method !== 'none' && (
+                        <Button variant="outline" size="sm" className="gap-2" onClick={() => setRotatingApp(app)}>
+                          <KeyRound className="w-4 h-4" />
+                          Tạo secret mới
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </main>
+      </div>
+
+      <AppFormDialog
+        open={formOpen}
+        app={editingApp}
+        submitting={submitting}
+        onSubmit={handleSubmit}
+        onOpenChange={setFormOpen}
+      />
+
+      <ClientSecretDialog
+        clientId={revealedSecret?.clientId || null}
+        clientSecret={revealedSecret?.clientSecret || null}
+        onClose={() => setRevealedSecret(null)}
+      />
+
+      <AlertDialog open={!!rotatingApp} onOpenChange={(open) => !open && setRotatingApp(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Tạo client secret mới?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Secret hiện tại của {rotatingApp?.client_name} sẽ ngừng hoạt động ngay lập tức.
+              Hãy cập nhật server của bạn với secret mới.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Hủy</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRotateSecret}>Tạo secret mới</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Developers;
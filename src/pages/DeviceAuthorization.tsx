@@ -0,0 +1,155 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { CheckCircle2, Tv, XCircle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import ConsentCard from '@/components/oauth/ConsentCard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { getDeviceAuthorization, submitDeviceConsent, DeviceAuthorizationRequest } from '@/lib/api';
+import { toast } from 'sonner';
+
+const DeviceAuthorization = () => {
+  const { user, profile, loading } = useAuth();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [userCode, setUserCode] = useState(searchParams.get('user_code') || '');
+  const [deviceRequest, setDeviceRequest] = useState<DeviceAuthorizationRequest | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<'approved' | 'denied' | null>(null);
+
+  const lookUpCode = useCallback(async (code: string) => {
+    setChecking(true);
+    const { data, error } = await getDeviceAuthorization(code);
+    setChecking(false);
+
+    if (error || !data) {
+      console.error('Error looking up device code:', error);
+      toast.error('Mã không hợp lệ hoặc đã hết hạn');
+      return;
+    }
+
+    setDeviceRequest(data);
+  }, []);
+
+  // Sign in first, then come back with the code still filled in
+  useEffect(() => {
+    if (loading || user) return;
+
+    const redirect = `/device${userCode ? `?user_code=${encodeURIComponent(userCode)}` : ''}`;
+    navigate(`/auth?redirect=${encodeURIComponent(redirect)}`, { replace: true });
+  }, [loading, user, userCode, navigate]);
+
+  // verification_uri_complete carries the code, so skip the input step
+  const initialCode = searchParams.get('user_code');
+  const userId = user?.id;
+  useEffect(() => {
+    if (userId && initialCode) {
+      lookUpCode(initialCode);
+    }
+  }, [userId, initialCode, lookUpCode]);
+
+  const handleSubmitCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (userCode.trim()) {
+      lookUpCode(userCode.trim());
+    }
+  };
+
+  const handleDecision = async (approved: boolean) => {
+    if (!deviceRequest) return;
+    setSubmitting(true);
+
+    const { data, error } = await submitDeviceConsent(deviceRequest.user_code, approved);
+    setSubmitting(false);
+
+    if (error || !data) {
+      console.error('Error submitting device consent:', error);
+      toast.error('Không thể hoàn tất yêu cầu đăng nhập');
+      return;
+    }
+
+    setResult(data.approved ? 'approved' : 'denied');
+  };
+
+  if (loading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute top-1/4 left-1/4 w-96 h-96 bg-chakra-primary/10 rounded-full blur-3xl animate-pulse" />
+        <div className="absolute bottom-1/4 right-1/4 w-96 h-96 bg-chakra-glow/10 rounded-full blur-3xl animate-pulse" style={{ animationDelay: '1s' }} />
+      </div>
+
+      {result ? (
+        <Card className="w-full max-w-md border-chakra-primary/20 bg-card/80 backdrop-blur-sm relative z-10">
+          <CardHeader className="text-center space-y-4">
+            <div className="flex justify-center">
+              {result === 'approved' ? (
+                <CheckCircle2 className="w-12 h-12 text-chakra-primary" />
+              ) : (
+                <XCircle className="w-12 h-12 text-muted-foreground" />
+              )}
+            </div>
+            <CardTitle className="text-xl font-bold">
+              {result === 'approved' ? 'Đã kết nối thiết bị' : 'Đã từ chối yêu cầu'}
+            </CardTitle>
+            <CardDescription>
+              {result === 'approved'
+                ? 'Bạn có thể quay lại thiết bị của mình để tiếp tục.'
+                : 'Thiết bị sẽ không được truy cập tài khoản của bạn.'}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : deviceRequest ? (
+        <ConsentCard
+          clientName={deviceRequest.client_name}
+          logoUri={deviceRequest.logo_uri}
+          scopes={deviceRequest.scopes}
+          userLabel={profile?.display_name || user.email}
+          submitting={submitting}
+          onApprove={() => handleDecision(true)}
+          onDeny={() => handleDecision(false)}
+        />
+      ) : (
+        <Card className="w-full max-w-md border-chakra-primary/20 bg-card/80 backdrop-blur-sm relative z-10">
+          <CardHeader className="text-center space-y-4">
+            <div className="flex justify-center">
+              <Tv className="w-12 h-12 text-chakra-primary" />
+            </div>
+            <CardTitle className="text-xl font-bold">Kết nối thiết bị</CardTitle>
+            <CardDescription>Nhập mã đang hiển thị trên TV hoặc ứng dụng dòng lệnh</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmitCode} className="space-y-4">
+              <Input
+                value={userCode}
+                onChange={(e) => setUserCode(e.target.value.toUpperCase())}
+                placeholder="XXXX-XXXX"
+                autoComplete="off"
+                autoFocus
+                className="text-center text-lg tracking-widest font-mono"
+              />
+              <Button
+                type="submit"
+                className="w-full gradient-chakra hover:opacity-90 transition-opacity text-white font-semibold"
+                disabled={checking || !userCode.trim()}
+              >
+                {checking ? 'Đang kiểm tra...' : 'Tiếp tục'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default DeviceAuthorization;
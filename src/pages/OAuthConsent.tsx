@@ -0,0 +1,178 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import ConsentCard from '@/components/oauth/ConsentCard';
+import { startOAuthSession, submitOAuthConsent, OAuthAuthorizeParams } from '@/lib/api';
+import { toast } from 'sonner';
+
+const REQUIRED_PARAMS = ['client_id', 'redirect_uri', 'scope', 'state', 'code_challenge'] as const;
+
+const OAuthConsent = () => {
+  const { user, profile, loading } = useAuth();
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [submitting, setSubmitting] = useState(false);
+  const [checkingConsent, setCheckingConsent] = useState(true);
+  const [scopesToApprove, setScopesToApprove] = useState<string[]>([]);
+  const [grantedScopes, setGrantedScopes] = useState<string[]>([]);
+  // Name and logo as registered, from the worker; client_name/logo_uri in the URL are ignored
+  const [client, setClient] = useState<{ name: string | null; logoUri: string | null }>({ name: null, logoUri: null });
+  const leaving = useRef(false);
+
+  const missingParams = REQUIRED_PARAMS.filter((name) => !searchParams.get(name));
+  const hasAllParams = missingParams.length === 0;
+  const userId = user?.id;
+
+  const authorizeParams = useMemo<OAuthAuthorizeParams>(() => ({
+    client_id: searchParams.get('client_id') || '',
+    redirect_uri: searchParams.get('redirect_uri') || '',
+    scope: searchParams.get('scope') || '',
+    state: searchParams.get('state') || '',
+    code_challenge: searchParams.get('code_challenge') || '',
+    code_challenge_method: searchParams.get('code_challenge_method') || 'S256',
+    nonce: searchParams.get('nonce') || undefined,
+    prompt: searchParams.get('prompt') || undefined,
+    max_age: searchParams.get('max_age') || undefined,
+    login_hint: searchParams.get('login_hint') || undefined,
+    id_token_hint: searchParams.get('id_token_hint') || undefined,
+  }), [searchParams]);
+
+  /**
+   * Send the user to sign in (again) and come back here afterwards.
+   * prompt=login and prompt=select_account are satisfied by that sign-in,
+   * so they are dropped from the return URL to avoid a loop.
+   */
+  const goToLogin = useCallback(async () => {
+    leaving.current = true;
+
+    const next = new URLSearchParams(searchParams);
+    const prompt = (next.get('prompt') || '')
+      .split(' ')
+      .filter((value) => value && value !== 'login' && value !== 'select_account')
+      .join(' ');
+    if (prompt) {
+      next.set('prompt', prompt);
+    } else {
+      next.delete('prompt');
+    }
+
+    const authParams = new URLSearchParams({ redirect: `${location.pathname}?${next.toString()}` });
+    const loginHint = searchParams.get('login_hint');
+    if (loginHint) {
+      authParams.set('login_hint', loginHint);
+    }
+
+    // Re-authenticating is not a sign-out: drop only this browser's session
+    // so other devices and apps keep theirs
+    if (userId) {
+      await supabase.auth.signOut({ scope: 'local' });
+    }
+    navigate(`/auth?${authParams.toString()}`, { replace: true });
+  }, [searchParams, location.pathname, userId, navigate]);
+
+  // Apply prompt/max_age and skip the consent screen when earlier consent covers the request
+  useEffect(() => {
+    if (loading || !hasAllParams || leaving.current) return;
+
+    const checkSession = async () => {
+      const { data, error } = await startOAuthSession(authorizeParams);
+      if (leaving.current) return;
+
+      if (error || !data) {
+        console.error('Error checking consent:', error);
+        if (!userId) {
+          goToLogin();
+          return;
+        }
+        toast.error('Không thể xác minh yêu cầu đăng nhập');
+        // Fall back to asking for every requested scope
+        setScopesToApprove(authorizeParams.scope.split(' '));
+        setCheckingConsent(false);
+        return;
+      }
+
+      if (data.redirect_uri) {
+        leaving.current = true;
+        window.location.replace(data.redirect_uri);
+        return;
+      }
+
+      if (data.login_required) {
+        goToLogin();
+        return;
+      }
+
+      setClient({ name: data.client_name || null, logoUri: data.logo_uri || null });
+      setScopesToApprove(data.new_scopes || authorizeParams.scope.split(' '));
+      setGrantedScopes(data.granted_scopes || []);
+      setCheckingConsent(false);
+    };
+
+    checkSession();
+  }, [loading, userId, hasAllParams, authorizeParams, goToLogin]);
+
+  const handleDecision = async (approved: boolean) => {
+    setSubmitting(true);
+
+    const { data, error } = await submitOAuthConsent({ ...authorizeParams, approved });
+
+    if (error || !data) {
+      setSubmitting(false);
+      console.error('Error submitting consent:', error);
+      toast.error('Không thể hoàn tất yêu cầu đăng nhập');
+      return;
+    }
+
+    // Hand control back to the client application
+    window.location.assign(data.redirect_uri);
+  };
+
+  if (missingParams.length > 0) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-muted p-4">
+        <div className="text-center">
+          <h1 className="mb-4 text-2xl font-bold">Yêu cầu không hợp lệ</h1>
+          <p className="mb-4 text-muted-foreground">
+            Thiếu tham số: {missingParams.join(', ')}
+          </p>
+          <a href="/" className="text-primary underline hover:text-primary/90">
+            Về trang chủ
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading || checkingConsent || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute top-1/4 left-1/4 w-96 h-96 bg-chakra-primary/10 rounded-full blur-3xl animate-pulse" />
+        <div className="absolute bottom-1/4 right-1/4 w-96 h-96 bg-chakra-glow/10 rounded-full blur-3xl animate-pulse" style={{ animationDelay: '1s' }} />
+      </div>
+
+      <ConsentCard
+        clientName={client.name || authorizeParams.client_id}
+        logoUri={client.logoUri}
+        scopes={scopesToApprove}
+        grantedScopes={grantedScopes}
+        userLabel={profile?.display_name || user.email}
+        submitting={submitting}
+        onApprove={() => handleDecision(true)}
+        onDeny={() => handleDecision(false)}
+        onSwitchAccount={goToLogin}
+      />
+    </div>
+  );
+};
+
+export default OAuthConsent;
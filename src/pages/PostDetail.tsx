@@ -0,0 +1,101 @@
+import React, { useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import Header from '@/components/layout/Header';
+import LeftSidebar from '@/components/layout/LeftSidebar';
+import PostCard from '@/components/feed/PostCard';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePost, useUpdateFeedCache } from '@/hooks/usePosts';
+import { formatPostTimestamp } from '@/lib/time';
+import { Post } from '@/lib/api';
+
+const PostDetail = () => {
+  const { postId } = useParams<{ postId: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { data: post, isLoading, isError } = usePost(postId);
+  const updateFeed = useUpdateFeedCache();
+
+  // Arriving from the feed would otherwise keep its scroll offset
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [postId]);
+
+  const goBack = () => {
+    // Back to the feed keeps its scroll position; a shared link has no history to go back to
+    if (window.history.state?.idx > 0) {
+      navigate(-1);
+    } else {
+      navigate('/');
+    }
+  };
+
+  const handleUpdated = (updatedPost: Post) => {
+    updateFeed((posts) => posts.map(p => p.id === updatedPost.id ? updatedPost : p));
+  };
+
+  const handleDeleted = (deletedId: string) => {
+    updateFeed((posts) => posts.filter(p => p.id !== deletedId));
+    navigate('/', { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <LeftSidebar />
+
+      <main className="pt-14 lg:pl-72">
+        <div className="max-w-xl mx-auto p-4">
+          <Button variant="ghost" size="sm" className="mb-4 gap-2" onClick={goBack}>
+            <ArrowLeft className="w-4 h-4" />
+            Quay lại
+          </Button>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : isError || !post ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <p>Không tìm thấy bài viết</p>
+              <p className="text-sm mt-1">Bài viết có thể đã bị xóa</p>
+              <Link to="/" className="inline-block mt-3 text-primary hover:underline">
+                Về trang chủ
+              </Link>
+            </div>
+          ) : (
+            <PostCard
+              key={post.id}
+              postId={post.id}
+              userId={post.user_id}
+              currentUserId={user?.id}
+              author={{
+                name: post.author?.display_name || 'Người dùng',
+                avatar: post.author?.avatar_url || undefined,
+                verified: false,
+              }}
+              content={post.content}
+              image={post.image_url || undefined}
+              videoUrl={post.video_url || undefined}
+              mediaType={(post.media_type as 'image' | 'video' | 'none') || undefined}
+              timestamp={formatPostTimestamp(post.created_at)}
+              likes={post.likes_count}
+              comments={post.comments_count}
+              shares={post.shares_count}
+              coinReward={post.coin_reward > 0 ? post.coin_reward : undefined}
+              tipTotal={Number(post.tip_total) || 0}
+              tipperCount={post.tipper_count || 0}
+              defaultShowComments
+              commentsPageSize={50}
+              onUpdate={handleUpdated}
+              onDelete={handleDeleted}
+            />
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default PostDetail;
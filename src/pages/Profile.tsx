@@ -1,7 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { getMyProfile, updateMyProfile } from '@/lib/api';
-import { Navigate } from 'react-router-dom';
+import { Link, Navigate } from 'react-router-dom';
 import Header from '@/components/layout/Header';
 import LeftSidebar from '@/components/layout/LeftSidebar';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -9,9 +9,11 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Pencil, Save, X, Coins, Calendar, User } from 'lucide-react';
+import { Pencil, Save, X, Coins, Calendar, User, Eye } from 'lucide-react';
 import { toast } from 'sonner';
 import ImageUpload from '@/components/ui/image-upload';
+import CamlyHistory from '@/components/web3/CamlyHistory';
+import { useCamlyBalance } from '@/hooks/useCamly';
 
 interface Profile {
   id: string;
@@ -33,6 +35,7 @@ const Profile = () => {
     avatar_url: ''
   });
   const [saving, setSaving] = useState(false);
+  const { data: camlyBalance } = useCamlyBalance(!!user);
 
   useEffect(() => {
     if (user) {
@@ -176,10 +179,18 @@ const Profile = () => {
                       </Button>
                     </>
                   ) : (
-                    <Button variant="outline" onClick={() => setIsEditing(true)} size="sm">
-                      <Pencil className="w-4 h-4 mr-1" />
-                      Chỉnh sửa
-                    </Button>
+                    <>
+                      <Button variant="outline" onClick={() => setIsEditing(true)} size="sm">
+                        <Pencil className="w-4 h-4 mr-1" />
+                        Chỉnh sửa
+                      </Button>
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link to={`/u/${user.id}`}>
+                          <Eye className="w-4 h-4 mr-1" />
+                          Trang công khai
+                        </Link>
+                      </Button>
+                    </>
                   )}
                 </div>
               </div>
@@ -223,7 +234,7 @@ const Profile = () => {
                 <div className="flex items-center justify-between p-3 rounded-lg bg-secondary">
                   <span className="text-sm text-muted-foreground">CAMLY Coins</span>
                   <span className="font-bold text-[hsl(var(--coin-gold))]">
-                    {profile?.camly_balance?.toLocaleString() || 0}
+                    {(camlyBalance ?? profile?.camly_balance ?? 0).toLocaleString()}
                   </span>
                 </div>
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -233,16 +244,13 @@ const Profile = () => {
               </CardContent>
             </Card>
 
-            {/* Activity History */}
+            {/* CAMLY Transaction History */}
             <Card className="md:col-span-3">
               <CardHeader>
-                <CardTitle>Lịch sử hoạt động</CardTitle>
+                <CardTitle>Lịch sử giao dịch CAMLY</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-center py-8 text-muted-foreground">
-                  <p>Chưa có hoạt động nào</p>
-                  <p className="text-sm mt-1">Hoạt động của bạn sẽ hiển thị ở đây</p>
-                </div>
+                <CamlyHistory />
               </CardContent>
             </Card>
           </div>
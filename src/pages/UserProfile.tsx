@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { Calendar, Coins, FileText, Loader2, Pencil } from 'lucide-react';
+import Header from '@/components/layout/Header';
+import LeftSidebar from '@/components/layout/LeftSidebar';
+import PostCard from '@/components/feed/PostCard';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePublicProfile } from '@/hooks/useProfile';
+import { useUserPosts, useUpdateFeedCache } from '@/hooks/usePosts';
+import { formatPostTimestamp } from '@/lib/time';
+import { Post } from '@/lib/api';
+
+const UserProfile = () => {
+  const { userId } = useParams<{ userId: string }>();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: profile, isLoading, isError } = usePublicProfile(userId);
+  const {
+    data,
+    isLoading: postsLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useUserPosts(userId);
+  const userPostsKey = useMemo(() => ['posts', 'user', userId], [userId]);
+  const updateUserPosts = useUpdateFeedCache(userPostsKey);
+  const updateFeed = useUpdateFeedCache();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const isOwner = !!user && user.id === userId;
+  const posts = useMemo(() => data?.pages.flatMap((page) => page.posts) ?? [], [data]);
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [userId]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: '600px' }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const handlePostUpdated = (updatedPost: Post) => {
+    const replace = (list: Post[]) => list.map(p => p.id === updatedPost.id ? updatedPost : p);
+    updateUserPosts(replace);
+    updateFeed(replace);
+  };
+
+  const handlePostDeleted = (deletedId: string) => {
+    const remove = (list: Post[]) => list.filter(p => p.id !== deletedId);
+    updateUserPosts(remove);
+    updateFeed(remove);
+    queryClient.invalidateQueries({ queryKey: ['profiles', userId] });
+  };
+
+  const getInitials = (name: string | null) => {
+    if (!name) return 'U';
+    return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('vi-VN', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <LeftSidebar />
+
+      <main className="pt-14 lg:pl-72">
+        <div className="max-w-2xl mx-auto p-4">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : isError || !profile ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <p>Không tìm thấy người dùng</p>
+              <Link to="/" className="inline-block mt-3 text-primary hover:underline">
+                Về trang chủ
+              </Link>
+            </div>
+          ) : (
+            <>
+              {/* Profile Header Card */}
+              <Card className="mb-6 overflow-hidden">
+                <div className="h-32 gradient-chakra" />
+                <CardContent className="relative pt-0">
+                  <div className="flex flex-col sm:flex-row items-center sm:items-end gap-4 -mt-16">
+                    <Avatar className="w-32 h-32 border-4 border-card shadow-lg">
+                      <AvatarImage src={profile.avatar_url || ''} />
+                      <AvatarFallback className="text-2xl bg-primary text-primary-foreground">
+                        {getInitials(profile.display_name)}
+                      </AvatarFallback>
+                    </Avatar>
+
+                    <div className="flex-1 text-center sm:text-left pb-4">
+                      <h1 className="text-2xl font-bold text-foreground">
+                        {profile.display_name || 'Chưa có tên'}
+                      </h1>
+                      <Badge className="gradient-chakra text-primary-foreground gap-1 mt-1">
+                        <Coins className="h-3 w-3" />
+                        {(profile.camly_balance ?? 0).toLocaleString()} CAMLY
+                      </Badge>
+                    </div>
+
+                    {isOwner && (
+                      <div className="pb-4">
+                        <Button variant="outline" size="sm" asChild>
+                          <Link to="/profile">
+                            <Pencil className="w-4 h-4 mr-1" />
+                            Chỉnh sửa
+                          </Link>
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  <p className="text-muted-foreground mt-2 whitespace-pre-wrap">
+                    {profile.bio || 'Chưa có thông tin giới thiệu'}
+                  </p>
+
+                  <div className="flex flex-wrap gap-4 mt-4 text-sm text-muted-foreground">
+                    <span className="flex items-center gap-2">
+                      <Calendar className="w-4 h-4" />
+                      Tham gia: {formatDate(profile.created_at)}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      <FileText className="w-4 h-4" />
+                      {profile.post_count.toLocaleString()} bài viết
+                    </span>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Posts */}
+              {postsLoading ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                </div>
+              ) : posts.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <p>Chưa có bài viết nào</p>
+                </div>
+              ) : (
+                posts.map((post) => (
+                  <PostCard
+                    key={post.id}
+                    postId={post.id}
+                    userId={post.user_id}
+                    currentUserId={user?.id}
+                    author={{
+                      name: post.author?.display_name || 'Người dùng',
+                      avatar: post.author?.avatar_url || undefined,
+                      verified: false,
+                    }}
+                    content={post.content}
+                    image={post.image_url || undefined}
+                    videoUrl={post.video_url || undefined}
+                    mediaType={(post.media_type as 'image' | 'video' | 'none') || undefined}
+                    timestamp={formatPostTimestamp(post.created_at)}
+                    likes={post.likes_count}
+                    comments={post.comments_count}
+                    shares={post.shares_count}
+                    coinReward={post.coin_reward > 0 ? post.coin_reward : undefined}
+                    tipTotal={Number(post.tip_total) || 0}
+                    tipperCount={post.tipper_count || 0}
+                    onUpdate={handlePostUpdated}
+                    onDelete={handlePostDeleted}
+                  />
+                ))
+              )}
+
+              <div ref={sentinelRef} />
+              {isFetchingNextPage && (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default UserProfile;
@@ -0,0 +1,47 @@
+-- =====================================================
+-- FUN-ID SSO: Token Revocation (RFC 7009)
+-- Access tokens are stateless JWTs, so revoked ones are
+-- tracked by jti until they expire naturally
+-- =====================================================
+
+CREATE TABLE public.oauth_revoked_access_tokens (
+  jti text PRIMARY KEY,
+  client_id text NOT NULL REFERENCES oauth_clients(client_id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS - accessed only by Worker with service role key
+ALTER TABLE public.oauth_revoked_access_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role only - no direct access"
+ON public.oauth_revoked_access_tokens
+FOR ALL
+TO authenticated, anon
+USING (false)
+WITH CHECK (false);
+
+CREATE INDEX idx_oauth_revoked_access_tokens_expires ON public.oauth_revoked_access_tokens(expires_at);
+
+-- Revoked jti entries are useless once the token itself has expired
+CREATE OR REPLACE FUNCTION public.cleanup_expired_oauth_data()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Delete expired authorization codes
+  DELETE FROM public.oauth_authorization_codes
+  WHERE expires_at < now() OR used = true;
+
+  -- Delete expired refresh tokens
+  DELETE FROM public.oauth_refresh_tokens
+  WHERE expires_at < now() OR revoked = true;
+
+  -- Delete revocation entries for access tokens that have expired anyway
+  DELETE FROM public.oauth_revoked_access_tokens
+  WHERE expires_at < now();
+END;
+$$;
@@ -0,0 +1,19 @@
+-- =====================================================
+-- FUN-ID SSO: Token Introspection (RFC 7662)
+-- Group refresh tokens into families so access tokens
+-- (sid claim) can be checked against their grant
+-- =====================================================
+
+-- 1. Every refresh token belongs to a family; rotation keeps the family
+ALTER TABLE public.oauth_refresh_tokens
+  ADD COLUMN family_id uuid;
+
+-- Existing tokens each start their own family
+UPDATE public.oauth_refresh_tokens
+SET family_id = id
+WHERE family_id IS NULL;
+
+ALTER TABLE public.oauth_refresh_tokens
+  ALTER COLUMN family_id SET NOT NULL;
+
+CREATE INDEX idx_oauth_refresh_tokens_family ON public.oauth_refresh_tokens(family_id);
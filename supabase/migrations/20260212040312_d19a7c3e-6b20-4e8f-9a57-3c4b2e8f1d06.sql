@@ -0,0 +1,65 @@
+-- =====================================================
+-- FUN-ID SSO: Refresh Token Reuse Detection
+-- Track the rotation chain of each token family so that
+-- presenting an already-rotated token revokes the family
+-- =====================================================
+
+-- 1. Rotation chain and revocation reason
+ALTER TABLE public.oauth_refresh_tokens
+  ADD COLUMN parent_id uuid REFERENCES public.oauth_refresh_tokens(id) ON DELETE SET NULL,
+  ADD COLUMN revoked_reason text
+    CHECK (revoked_reason IN ('rotated', 'revoked', 'reuse_detected', 'expired', 'logout'));
+
+-- Tokens revoked before this migration were revoked by rotation
+UPDATE public.oauth_refresh_tokens
+SET revoked_reason = 'rotated'
+WHERE revoked = true AND revoked_reason IS NULL;
+
+CREATE INDEX idx_oauth_refresh_tokens_parent ON public.oauth_refresh_tokens(parent_id);
+
+-- 2. Security event log (written by Worker only)
+CREATE TABLE public.oauth_security_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type text NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  client_id text REFERENCES oauth_clients(client_id) ON DELETE CASCADE,
+  family_id uuid,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ip_address text,
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.oauth_security_events ENABLE ROW LEVEL SECURITY;
+
+-- Admins can review security events
+CREATE POLICY "Admins can view security events"
+ON public.oauth_security_events
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_oauth_security_events_user ON public.oauth_security_events(user_id, created_at DESC);
+CREATE INDEX idx_oauth_security_events_type ON public.oauth_security_events(event_type, created_at DESC);
+
+-- 3. Keep rotated tokens until they expire, otherwise reuse
+--    of a rotated token could no longer be detected
+CREATE OR REPLACE FUNCTION public.cleanup_expired_oauth_data()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Delete expired authorization codes
+  DELETE FROM public.oauth_authorization_codes
+  WHERE expires_at < now() OR used = true;
+
+  -- Delete expired refresh tokens (revoked ones are kept for reuse detection)
+  DELETE FROM public.oauth_refresh_tokens
+  WHERE expires_at < now();
+
+  -- Delete revocation entries for access tokens that have expired anyway
+  DELETE FROM public.oauth_revoked_access_tokens
+  WHERE expires_at < now();
+END;
+$$;
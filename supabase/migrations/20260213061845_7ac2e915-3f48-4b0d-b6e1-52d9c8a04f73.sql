@@ -0,0 +1,51 @@
+-- =====================================================
+-- FUN-ID SSO: Signing Key Rotation
+-- Key material lives in the Worker secret FUNID_RSA_KEYSET;
+-- this table only tracks the lifecycle status of each kid
+-- =====================================================
+
+CREATE TABLE public.oauth_signing_keys (
+  kid text PRIMARY KEY,
+  status text NOT NULL DEFAULT 'next'
+    CHECK (status IN ('next', 'current', 'retiring')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  promoted_at timestamptz,
+  retired_at timestamptz
+);
+
+-- At most one key signs tokens at any time
+CREATE UNIQUE INDEX idx_oauth_signing_keys_single_current
+ON public.oauth_signing_keys(status)
+WHERE status = 'current';
+
+-- Enable RLS - accessed only by Worker with service role key
+ALTER TABLE public.oauth_signing_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role only - no direct access"
+ON public.oauth_signing_keys
+FOR ALL
+TO authenticated, anon
+USING (false)
+WITH CHECK (false);
+
+-- Promote a key to current; the previous current key becomes retiring
+-- so tokens it signed keep verifying until they expire
+CREATE OR REPLACE FUNCTION public.promote_oauth_signing_key(_kid text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.oauth_signing_keys
+  SET status = 'retiring', retired_at = now()
+  WHERE status = 'current' AND kid <> _kid;
+
+  INSERT INTO public.oauth_signing_keys (kid, status, promoted_at)
+  VALUES (_kid, 'current', now())
+  ON CONFLICT (kid) DO UPDATE
+  SET status = 'current', promoted_at = now(), retired_at = NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.promote_oauth_signing_key(text) FROM PUBLIC, anon, authenticated;
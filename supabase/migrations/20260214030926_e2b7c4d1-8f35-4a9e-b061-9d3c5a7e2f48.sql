@@ -0,0 +1,12 @@
+-- =====================================================
+-- FUN-ID SSO: OIDC auth_time
+-- Remember when the user actually authenticated so that
+-- max_age can be enforced and auth_time emitted in ID tokens
+-- =====================================================
+
+ALTER TABLE public.oauth_authorization_codes
+  ADD COLUMN auth_time timestamptz;
+
+-- Carried forward on every rotation, so refreshed ID tokens keep the original auth_time
+ALTER TABLE public.oauth_refresh_tokens
+  ADD COLUMN auth_time timestamptz;
@@ -0,0 +1,8 @@
+-- =====================================================
+-- FUN-ID SSO: RP-Initiated Logout
+-- Clients must register where users may be sent after
+-- logout, just like redirect_uris for authorization
+-- =====================================================
+
+ALTER TABLE public.oauth_clients
+  ADD COLUMN post_logout_redirect_uris text[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,38 @@
+-- =====================================================
+-- FUN-ID SSO: OIDC Back-Channel Logout
+-- Clients register a backchannel_logout_uri; the Worker
+-- queues a signed logout token for every revoked session
+-- and retries failed deliveries from its cron trigger
+-- =====================================================
+
+ALTER TABLE public.oauth_clients
+  ADD COLUMN backchannel_logout_uri text;
+
+CREATE TABLE public.oauth_backchannel_logout_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id text NOT NULL REFERENCES oauth_clients(client_id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  sid uuid NOT NULL, -- refresh token family_id, emitted as "sid" in tokens
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_error text,
+  delivered_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (client_id, sid)
+);
+
+-- Enable RLS - accessed only by Worker with service role key
+ALTER TABLE public.oauth_backchannel_logout_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role only - no direct access"
+ON public.oauth_backchannel_logout_deliveries
+FOR ALL
+TO authenticated, anon
+USING (false)
+WITH CHECK (false);
+
+CREATE INDEX idx_oauth_backchannel_pending
+ON public.oauth_backchannel_logout_deliveries(next_attempt_at)
+WHERE status = 'pending';
@@ -0,0 +1,60 @@
+-- =====================================================
+-- FUN-ID SSO: Device Authorization Grant (RFC 8628)
+-- Devices without a browser (TV kiosks, CLI tools) get a
+-- user_code that the user approves at /device, while the
+-- device polls the token endpoint with its device_code
+-- =====================================================
+
+CREATE TABLE public.oauth_device_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_code_hash text NOT NULL UNIQUE, -- SHA-256, the device_code itself is never stored
+  user_code text NOT NULL UNIQUE,        -- normalized: uppercase, no dash
+  client_id text NOT NULL REFERENCES oauth_clients(client_id) ON DELETE CASCADE,
+  scope text NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'denied', 'consumed')),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  auth_time timestamptz,
+  poll_interval integer NOT NULL DEFAULT 5, -- seconds, raised on slow_down
+  last_polled_at timestamptz,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS - accessed only by Worker with service role key
+ALTER TABLE public.oauth_device_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role only - no direct access"
+ON public.oauth_device_codes
+FOR ALL
+TO authenticated, anon
+USING (false)
+WITH CHECK (false);
+
+CREATE INDEX idx_oauth_device_codes_expires ON public.oauth_device_codes(expires_at);
+
+-- Expired device codes are useless; drop them with the other expired OAuth data
+CREATE OR REPLACE FUNCTION public.cleanup_expired_oauth_data()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Delete expired authorization codes
+  DELETE FROM public.oauth_authorization_codes
+  WHERE expires_at < now() OR used = true;
+
+  -- Delete expired refresh tokens (revoked ones are kept for reuse detection)
+  DELETE FROM public.oauth_refresh_tokens
+  WHERE expires_at < now();
+
+  -- Delete revocation entries for access tokens that have expired anyway
+  DELETE FROM public.oauth_revoked_access_tokens
+  WHERE expires_at < now();
+
+  -- Delete expired or already exchanged device codes
+  DELETE FROM public.oauth_device_codes
+  WHERE expires_at < now() OR status = 'consumed';
+END;
+$$;
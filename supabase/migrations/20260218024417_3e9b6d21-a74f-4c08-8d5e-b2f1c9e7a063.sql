@@ -0,0 +1,14 @@
+-- =====================================================
+-- FUN-ID SSO: Dynamic Client Registration (RFC 7591/7592)
+-- Clients registered through /oauth/register get a
+-- registration access token for reading, updating and
+-- deleting their own configuration
+-- =====================================================
+
+-- Public clients (token_endpoint_auth_method = none) have no secret
+ALTER TABLE public.oauth_clients
+  ALTER COLUMN client_secret_hash DROP NOT NULL;
+
+-- SHA-256 of the registration access token, shown to the registrant once
+ALTER TABLE public.oauth_clients
+  ADD COLUMN registration_access_token_hash text UNIQUE;
@@ -0,0 +1,78 @@
+-- =====================================================
+-- Sign-In With Ethereum (EIP-4361)
+-- Single-use nonces for SIWE messages, and wallet_address
+-- becomes a verified, unique link set only by the Worker
+-- =====================================================
+
+CREATE TABLE public.siwe_nonces (
+  nonce text PRIMARY KEY,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS - accessed only by Worker with service role key
+ALTER TABLE public.siwe_nonces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role only - no direct access"
+ON public.siwe_nonces
+FOR ALL
+TO authenticated, anon
+USING (false)
+WITH CHECK (false);
+
+CREATE INDEX idx_siwe_nonces_expires ON public.siwe_nonces(expires_at);
+
+-- One profile per wallet; addresses are stored EIP-55 checksummed
+CREATE UNIQUE INDEX idx_profiles_wallet_address_unique
+ON public.profiles (lower(wallet_address))
+WHERE wallet_address IS NOT NULL;
+
+-- "Users can update their own profile" would otherwise let anyone claim any address
+CREATE OR REPLACE FUNCTION public.protect_profile_wallet_address()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.wallet_address IS DISTINCT FROM OLD.wallet_address
+     AND current_user IN ('authenticated', 'anon') THEN
+    RAISE EXCEPTION 'wallet_address can only be set through wallet verification';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_wallet_address
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_wallet_address();
+
+-- Expired nonces are dropped with the other expired sign-in data
+CREATE OR REPLACE FUNCTION public.cleanup_expired_oauth_data()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Delete expired authorization codes
+  DELETE FROM public.oauth_authorization_codes
+  WHERE expires_at < now() OR used = true;
+
+  -- Delete expired refresh tokens (revoked ones are kept for reuse detection)
+  DELETE FROM public.oauth_refresh_tokens
+  WHERE expires_at < now();
+
+  -- Delete revocation entries for access tokens that have expired anyway
+  DELETE FROM public.oauth_revoked_access_tokens
+  WHERE expires_at < now();
+
+  -- Delete expired or already exchanged device codes
+  DELETE FROM public.oauth_device_codes
+  WHERE expires_at < now() OR status = 'consumed';
+
+  -- Delete unused SIWE nonces (used ones are deleted on use)
+  DELETE FROM public.siwe_nonces
+  WHERE expires_at < now();
+END;
+$$;
@@ -0,0 +1,202 @@
+-- =====================================================
+-- CAMLY COIN ledger
+-- Every movement of CAMLY is an immutable row in
+-- camly_transactions. A row debits from_user_id and
+-- credits to_user_id; NULL on either side is the system
+-- account (minting rewards, burning withdrawals).
+-- profiles.camly_balance becomes a cache derived from the
+-- ledger and can never go negative.
+-- =====================================================
+
+CREATE TABLE public.camly_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  type text NOT NULL
+    CHECK (type IN ('reward', 'tip', 'check_in', 'withdrawal', 'adjustment')),
+  -- No foreign keys: history must survive account deletion
+  from_user_id uuid,
+  to_user_id uuid,
+  amount numeric(18, 8) NOT NULL CHECK (amount > 0),
+  description text,
+  reference_type text, -- e.g. 'post' for post rewards
+  reference_id text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT camly_transactions_accounts_check CHECK (
+    CASE type
+      WHEN 'reward' THEN from_user_id IS NULL AND to_user_id IS NOT NULL
+      WHEN 'check_in' THEN from_user_id IS NULL AND to_user_id IS NOT NULL
+      WHEN 'tip' THEN from_user_id IS NOT NULL AND to_user_id IS NOT NULL AND from_user_id <> to_user_id
+      WHEN 'withdrawal' THEN from_user_id IS NOT NULL AND to_user_id IS NULL
+      WHEN 'adjustment' THEN (from_user_id IS NULL) <> (to_user_id IS NULL)
+    END
+  )
+);
+
+CREATE INDEX idx_camly_transactions_from ON public.camly_transactions(from_user_id, created_at DESC);
+CREATE INDEX idx_camly_transactions_to ON public.camly_transactions(to_user_id, created_at DESC);
+CREATE INDEX idx_camly_transactions_reference ON public.camly_transactions(reference_type, reference_id);
+
+-- Enable RLS - written only by the Worker (service role) and database functions
+ALTER TABLE public.camly_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own CAMLY transactions"
+ON public.camly_transactions
+FOR SELECT
+TO authenticated
+USING (auth.uid() = from_user_id OR auth.uid() = to_user_id);
+
+-- The ledger is append-only, for every role
+CREATE OR REPLACE FUNCTION public.prevent_camly_transaction_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'camly_transactions is append-only; record a correcting adjustment instead';
+END;
+$$;
+
+CREATE TRIGGER camly_transactions_append_only
+BEFORE UPDATE OR DELETE ON public.camly_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_camly_transaction_changes();
+
+-- ===== Opening balances =====
+-- Existing balances enter the ledger before the balance trigger exists,
+-- so they are recorded without being counted twice
+UPDATE public.profiles SET camly_balance = 0 WHERE camly_balance IS NULL;
+
+INSERT INTO public.camly_transactions (type, to_user_id, amount, description)
+SELECT 'adjustment', id, camly_balance, 'Opening balance'
+FROM public.profiles
+WHERE camly_balance > 0;
+
+ALTER TABLE public.profiles
+  ALTER COLUMN camly_balance SET NOT NULL,
+  ADD CONSTRAINT profiles_camly_balance_non_negative CHECK (camly_balance >= 0);
+
+-- ===== Derived balance =====
+CREATE OR REPLACE FUNCTION public.apply_camly_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _account uuid;
+  _delta numeric;
+BEGIN
+  -- Lock accounts in id order so opposite tips cannot deadlock
+  FOR _account, _delta IN
+    SELECT account, delta FROM (
+      VALUES (NEW.from_user_id, -NEW.amount), (NEW.to_user_id, NEW.amount)
+    ) AS entries(account, delta)
+    WHERE account IS NOT NULL
+    ORDER BY account
+  LOOP
+    -- The non-negative check rejects overdrafts and rolls back the insert
+    UPDATE public.profiles
+    SET camly_balance = camly_balance + _delta
+    WHERE id = _account;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'CAMLY account % does not exist', _account;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_camly_transaction
+AFTER INSERT ON public.camly_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_camly_transaction();
+
+-- Balance recomputed from the ledger alone, for audits against the cached column
+CREATE OR REPLACE FUNCTION public.camly_ledger_balance(_user_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE((SELECT sum(amount) FROM public.camly_transactions WHERE to_user_id = _user_id), 0)
+    - COALESCE((SELECT sum(amount) FROM public.camly_transactions WHERE from_user_id = _user_id), 0)
+$$;
+
+-- ===== Protected columns =====
+-- Own-row RLS policies on profiles and posts would otherwise let users mint CAMLY
+CREATE OR REPLACE FUNCTION public.protect_profile_camly_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon')
+     AND NEW.camly_balance IS DISTINCT FROM (CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE OLD.camly_balance END) THEN
+    RAISE EXCEPTION 'camly_balance is derived from camly_transactions';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_camly_balance
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_camly_balance();
+
+CREATE OR REPLACE FUNCTION public.protect_post_coin_reward()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon')
+     AND COALESCE(NEW.coin_reward, 0) <> (CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE COALESCE(OLD.coin_reward, 0) END) THEN
+    RAISE EXCEPTION 'coin_reward can only be set by the service';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_posts_coin_reward
+BEFORE INSERT OR UPDATE ON public.posts
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_post_coin_reward();
+
+-- ===== Post rewards =====
+-- Raising a post's coin_reward credits the author with the difference;
+-- lowering it never claws coins back
+CREATE OR REPLACE FUNCTION public.credit_post_reward()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _credited numeric;
+BEGIN
+  SELECT COALESCE(sum(amount), 0) INTO _credited
+  FROM public.camly_transactions
+  WHERE type = 'reward' AND reference_type = 'post' AND reference_id = NEW.id::text;
+
+  IF COALESCE(NEW.coin_reward, 0) > _credited THEN
+    INSERT INTO public.camly_transactions (type, to_user_id, amount, description, reference_type, reference_id)
+    VALUES ('reward', NEW.user_id, NEW.coin_reward - _credited, 'Post reward', 'post', NEW.id::text);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER credit_post_reward
+AFTER INSERT OR UPDATE OF coin_reward ON public.posts
+FOR EACH ROW
+EXECUTE FUNCTION public.credit_post_reward();
+
+-- Rewards already shown on existing posts are paid out once
+INSERT INTO public.camly_transactions (type, to_user_id, amount, description, reference_type, reference_id)
+SELECT 'reward', p.user_id, p.coin_reward, 'Post reward', 'post', p.id::text
+FROM public.posts p
+JOIN public.profiles pr ON pr.id = p.user_id
+WHERE p.coin_reward > 0;
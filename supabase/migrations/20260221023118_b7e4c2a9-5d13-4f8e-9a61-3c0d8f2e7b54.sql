@@ -0,0 +1,115 @@
+-- =====================================================
+-- Daily check-in rewards
+-- One check-in per user per calendar day in the
+-- timezone the Worker passes in. Consecutive days build
+-- a streak that raises the reward; the check-in row and
+-- its camly_transactions credit are written together.
+-- =====================================================
+
+CREATE TABLE public.camly_check_ins (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  check_in_date date NOT NULL,
+  streak integer NOT NULL CHECK (streak > 0),
+  reward numeric(18, 8) NOT NULL CHECK (reward > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, check_in_date)
+);
+
+ALTER TABLE public.camly_check_ins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own check-ins"
+ON public.camly_check_ins
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- A day can only be paid once, even if a row bypasses camly_check_in()
+CREATE UNIQUE INDEX idx_camly_transactions_check_in_day
+ON public.camly_transactions(to_user_id, reference_id)
+WHERE type = 'check_in';
+
+-- 50 CAMLY on day one, +10 for each consecutive day, capped from day seven
+CREATE OR REPLACE FUNCTION public.camly_check_in_reward(_streak integer)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 50 + 10 * (LEAST(GREATEST(_streak, 1), 7) - 1)::numeric
+$$;
+
+-- Streak, next reward and when the next check-in opens
+CREATE OR REPLACE FUNCTION public.camly_check_in_status(_user_id uuid, _timezone text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _today date := (now() AT TIME ZONE _timezone)::date;
+  _last_date date;
+  _last_streak integer;
+  _streak integer := 0;
+BEGIN
+  SELECT check_in_date, streak INTO _last_date, _last_streak
+  FROM public.camly_check_ins
+  WHERE user_id = _user_id
+  ORDER BY check_in_date DESC
+  LIMIT 1;
+
+  -- A streak survives until a full day is missed
+  IF _last_date >= _today - 1 THEN
+    _streak := _last_streak;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'checked_in_today', _last_date IS NOT DISTINCT FROM _today,
+    'streak', _streak,
+    'next_reward', public.camly_check_in_reward(_streak + 1),
+    'next_check_in_at', CASE
+      WHEN _last_date IS NOT DISTINCT FROM _today THEN (_today + 1)::timestamp AT TIME ZONE _timezone
+      ELSE now()
+    END,
+    'timezone', _timezone
+  );
+END;
+$$;
+
+-- Check in for today; "reward" is NULL when the user already had
+CREATE OR REPLACE FUNCTION public.camly_check_in(_user_id uuid, _timezone text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _today date := (now() AT TIME ZONE _timezone)::date;
+  _streak integer;
+  _reward numeric;
+BEGIN
+  SELECT streak + 1 INTO _streak
+  FROM public.camly_check_ins
+  WHERE user_id = _user_id AND check_in_date = _today - 1;
+
+  _streak := COALESCE(_streak, 1);
+  _reward := public.camly_check_in_reward(_streak);
+
+  -- The primary key settles concurrent requests for the same day
+  INSERT INTO public.camly_check_ins (user_id, check_in_date, streak, reward)
+  VALUES (_user_id, _today, _streak, _reward)
+  ON CONFLICT (user_id, check_in_date) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN public.camly_check_in_status(_user_id, _timezone) || jsonb_build_object('reward', NULL);
+  END IF;
+
+  INSERT INTO public.camly_transactions (type, to_user_id, amount, description, reference_type, reference_id)
+  VALUES ('check_in', _user_id, _reward, format('Daily check-in (day %s)', _streak), 'check_in', _today::text);
+
+  RETURN public.camly_check_in_status(_user_id, _timezone) || jsonb_build_object('reward', _reward);
+END;
+$$;
+
+-- Both take an arbitrary user id, so only the Worker may call them
+REVOKE EXECUTE ON FUNCTION public.camly_check_in_status(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.camly_check_in(uuid, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,190 @@
+-- =====================================================
+-- CAMLY tips on posts and comments
+-- A tip is a 'tip' ledger entry from reader to author
+-- plus a camly_tips row tying it to what was tipped.
+-- Each tipper's idempotency key is unique, so a retried
+-- or double-clicked request replays the first result.
+-- posts/comments carry tip_total and tipper_count for
+-- display; only camly_tip() writes them.
+-- =====================================================
+
+CREATE TABLE public.camly_tips (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id uuid NOT NULL UNIQUE REFERENCES public.camly_transactions(id),
+  tipper_id uuid NOT NULL,
+  recipient_id uuid NOT NULL,
+  post_id uuid REFERENCES public.posts(id) ON DELETE CASCADE,
+  comment_id uuid REFERENCES public.comments(id) ON DELETE CASCADE,
+  amount numeric(18, 8) NOT NULL CHECK (amount > 0),
+  idempotency_key text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT camly_tips_target_check CHECK ((post_id IS NULL) <> (comment_id IS NULL)),
+  CONSTRAINT camly_tips_idempotency_key_unique UNIQUE (tipper_id, idempotency_key)
+);
+
+CREATE INDEX idx_camly_tips_tipper ON public.camly_tips(tipper_id, created_at DESC);
+CREATE INDEX idx_camly_tips_post ON public.camly_tips(post_id) WHERE post_id IS NOT NULL;
+CREATE INDEX idx_camly_tips_comment ON public.camly_tips(comment_id) WHERE comment_id IS NOT NULL;
+
+-- Enable RLS - only the Worker (service role) and camly_tip() touch this table
+ALTER TABLE public.camly_tips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role only - no direct access"
+ON public.camly_tips
+FOR ALL
+TO authenticated, anon
+USING (false)
+WITH CHECK (false);
+
+-- ===== Tip totals =====
+ALTER TABLE public.posts
+  ADD COLUMN tip_total numeric(18, 8) NOT NULL DEFAULT 0,
+  ADD COLUMN tipper_count integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.comments
+  ADD COLUMN tip_total numeric(18, 8) NOT NULL DEFAULT 0,
+  ADD COLUMN tipper_count integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.protect_tip_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    IF TG_OP = 'INSERT' THEN
+      IF NEW.tip_total <> 0 OR NEW.tipper_count <> 0 THEN
+        RAISE EXCEPTION 'tip totals can only be set by camly_tip()';
+      END IF;
+    ELSIF NEW.tip_total IS DISTINCT FROM OLD.tip_total OR NEW.tipper_count IS DISTINCT FROM OLD.tipper_count THEN
+      RAISE EXCEPTION 'tip totals can only be set by camly_tip()';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_posts_tip_totals
+BEFORE INSERT OR UPDATE ON public.posts
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_tip_totals();
+
+CREATE TRIGGER protect_comments_tip_totals
+BEFORE INSERT OR UPDATE ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_tip_totals();
+
+-- ===== Tipping =====
+-- Returns the tip and updated totals, or {"error": <code>} for a rejected
+-- tip. _daily_limit caps what one tipper sends in any rolling 24 hours.
+CREATE OR REPLACE FUNCTION public.camly_tip(
+  _tipper_id uuid,
+  _post_id uuid,
+  _comment_id uuid,
+  _amount numeric,
+  _idempotency_key text,
+  _daily_limit numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance numeric;
+  _recipient_id uuid;
+  _sent_today numeric;
+  _transaction_id uuid;
+  _tip public.camly_tips;
+  _tip_total numeric;
+  _tipper_count integer;
+BEGIN
+  IF (_post_id IS NULL) = (_comment_id IS NULL) THEN
+    RETURN jsonb_build_object('error', 'invalid_target');
+  END IF;
+
+  -- Serialise each tipper's tips: the balance, daily limit and
+  -- idempotency checks below must not race a concurrent request
+  SELECT camly_balance INTO _balance
+  FROM public.profiles
+  WHERE id = _tipper_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'tipper_not_found');
+  END IF;
+
+  SELECT * INTO _tip
+  FROM public.camly_tips
+  WHERE tipper_id = _tipper_id AND idempotency_key = _idempotency_key;
+
+  IF NOT FOUND THEN
+    IF _post_id IS NOT NULL THEN
+      SELECT user_id INTO _recipient_id FROM public.posts WHERE id = _post_id;
+    ELSE
+      SELECT user_id INTO _recipient_id FROM public.comments WHERE id = _comment_id;
+    END IF;
+
+    IF _recipient_id IS NULL THEN
+      RETURN jsonb_build_object('error', 'not_found');
+    END IF;
+
+    IF _recipient_id = _tipper_id THEN
+      RETURN jsonb_build_object('error', 'self_tip');
+    END IF;
+
+    SELECT COALESCE(sum(amount), 0) INTO _sent_today
+    FROM public.camly_tips
+    WHERE tipper_id = _tipper_id AND created_at > now() - interval '24 hours';
+
+    IF _sent_today + _amount > _daily_limit THEN
+      RETURN jsonb_build_object('error', 'daily_limit', 'remaining', GREATEST(_daily_limit - _sent_today, 0));
+    END IF;
+
+    IF _balance < _amount THEN
+      RETURN jsonb_build_object('error', 'insufficient_balance', 'balance', _balance);
+    END IF;
+
+    INSERT INTO public.camly_transactions (type, from_user_id, to_user_id, amount, description, reference_type, reference_id)
+    VALUES (
+      'tip', _tipper_id, _recipient_id, _amount,
+      CASE WHEN _post_id IS NOT NULL THEN 'Tip for post' ELSE 'Tip for comment' END,
+      CASE WHEN _post_id IS NOT NULL THEN 'post' ELSE 'comment' END,
+      COALESCE(_post_id, _comment_id)::text
+    )
+    RETURNING id INTO _transaction_id;
+
+    INSERT INTO public.camly_tips (transaction_id, tipper_id, recipient_id, post_id, comment_id, amount, idempotency_key)
+    VALUES (_transaction_id, _tipper_id, _recipient_id, _post_id, _comment_id, _amount, _idempotency_key)
+    RETURNING * INTO _tip;
+
+    IF _post_id IS NOT NULL THEN
+      UPDATE public.posts
+      SET tip_total = tip_total + _amount,
+          tipper_count = (SELECT count(DISTINCT tipper_id) FROM public.camly_tips WHERE post_id = _post_id)
+      WHERE id = _post_id;
+    ELSE
+      UPDATE public.comments
+      SET tip_total = tip_total + _amount,
+          tipper_count = (SELECT count(DISTINCT tipper_id) FROM public.camly_tips WHERE comment_id = _comment_id)
+      WHERE id = _comment_id;
+    END IF;
+  END IF;
+
+  IF _tip.post_id IS NOT NULL THEN
+    SELECT tip_total, tipper_count INTO _tip_total, _tipper_count FROM public.posts WHERE id = _tip.post_id;
+  ELSE
+    SELECT tip_total, tipper_count INTO _tip_total, _tipper_count FROM public.comments WHERE id = _tip.comment_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'tip', to_jsonb(_tip) - 'idempotency_key',
+    'tip_total', _tip_total,
+    'tipper_count', _tipper_count,
+    'balance', (SELECT camly_balance FROM public.profiles WHERE id = _tipper_id)
+  );
+END;
+$$;
+
+-- Takes an arbitrary tipper id, so only the Worker may call it
+REVOKE EXECUTE ON FUNCTION public.camly_tip(uuid, uuid, uuid, numeric, text, numeric) FROM PUBLIC, anon, authenticated;
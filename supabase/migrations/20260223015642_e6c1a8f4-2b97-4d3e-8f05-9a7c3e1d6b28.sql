@@ -0,0 +1,109 @@
+-- =====================================================
+-- Database-maintained post counters
+-- posts.likes_count and posts.comments_count move with
+-- each insert/delete on likes and comments, in the same
+-- statement, so concurrent likes cannot lose updates.
+-- repair_post_counters() recomputes any that drifted.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.update_post_likes_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.posts SET likes_count = COALESCE(likes_count, 0) + 1 WHERE id = NEW.post_id;
+  ELSE
+    UPDATE public.posts SET likes_count = GREATEST(COALESCE(likes_count, 0) - 1, 0) WHERE id = OLD.post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_post_likes_count
+AFTER INSERT OR DELETE ON public.likes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_post_likes_count();
+
+CREATE OR REPLACE FUNCTION public.update_post_comments_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.posts SET comments_count = COALESCE(comments_count, 0) + 1 WHERE id = NEW.post_id;
+  ELSE
+    UPDATE public.posts SET comments_count = GREATEST(COALESCE(comments_count, 0) - 1, 0) WHERE id = OLD.post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_post_comments_count
+AFTER INSERT OR DELETE ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_post_comments_count();
+
+-- Authors could otherwise set their own counts through the posts update policy
+CREATE OR REPLACE FUNCTION public.protect_post_counters()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    IF TG_OP = 'INSERT' THEN
+      IF COALESCE(NEW.likes_count, 0) <> 0 OR COALESCE(NEW.comments_count, 0) <> 0 THEN
+        RAISE EXCEPTION 'likes_count and comments_count are maintained by the database';
+      END IF;
+    ELSIF NEW.likes_count IS DISTINCT FROM OLD.likes_count OR NEW.comments_count IS DISTINCT FROM OLD.comments_count THEN
+      RAISE EXCEPTION 'likes_count and comments_count are maintained by the database';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_posts_counters
+BEFORE INSERT OR UPDATE ON public.posts
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_post_counters();
+
+-- Recompute counts from the likes and comments tables; returns how many posts changed
+CREATE OR REPLACE FUNCTION public.repair_post_counters()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _repaired integer;
+BEGIN
+  WITH actual AS (
+    SELECT
+      p.id,
+      (SELECT count(*) FROM public.likes l WHERE l.post_id = p.id) AS likes_count,
+      (SELECT count(*) FROM public.comments c WHERE c.post_id = p.id) AS comments_count
+    FROM public.posts p
+  )
+  UPDATE public.posts p
+  SET likes_count = actual.likes_count,
+      comments_count = actual.comments_count
+  FROM actual
+  WHERE p.id = actual.id
+    AND (p.likes_count IS DISTINCT FROM actual.likes_count
+      OR p.comments_count IS DISTINCT FROM actual.comments_count);
+
+  GET DIAGNOSTICS _repaired = ROW_COUNT;
+  RETURN _repaired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.repair_post_counters() FROM PUBLIC, anon, authenticated;
+
+-- Counts written by the old read-then-write code may already be off
+SELECT public.repair_post_counters();
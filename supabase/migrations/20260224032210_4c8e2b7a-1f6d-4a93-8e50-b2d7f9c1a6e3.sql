@@ -0,0 +1,7 @@
+-- =====================================================
+-- Realtime for posts
+-- The feed listens for new posts to offer a
+-- "N new posts" banner instead of reloading the list.
+-- =====================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.posts;
@@ -0,0 +1,124 @@
+-- =====================================================
+-- Deadlock-free CAMLY tips
+-- camly_tip() used to lock only the tipper's profile,
+-- then the ledger trigger locked both accounts. Two
+-- users tipping each other at once each held one row
+-- and waited on the other. Both rows are now locked up
+-- front, in id order.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.camly_tip(
+  _tipper_id uuid,
+  _post_id uuid,
+  _comment_id uuid,
+  _amount numeric,
+  _idempotency_key text,
+  _daily_limit numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance numeric;
+  _recipient_id uuid;
+  _sent_today numeric;
+  _transaction_id uuid;
+  _tip public.camly_tips;
+  _tip_total numeric;
+  _tipper_count integer;
+BEGIN
+  IF (_post_id IS NULL) = (_comment_id IS NULL) THEN
+    RETURN jsonb_build_object('error', 'invalid_target');
+  END IF;
+
+  IF _post_id IS NOT NULL THEN
+    SELECT user_id INTO _recipient_id FROM public.posts WHERE id = _post_id;
+  ELSE
+    SELECT user_id INTO _recipient_id FROM public.comments WHERE id = _comment_id;
+  END IF;
+
+  IF _recipient_id IS NULL THEN
+    RETURN jsonb_build_object('error', 'not_found');
+  END IF;
+
+  IF _recipient_id = _tipper_id THEN
+    RETURN jsonb_build_object('error', 'self_tip');
+  END IF;
+
+  -- Lock both accounts in id order, the same order apply_camly_transaction
+  -- uses, so A tipping B while B tips A cannot deadlock. Holding the
+  -- tipper's row also serialises the balance, daily limit and
+  -- idempotency checks below against a concurrent request.
+  PERFORM 1
+  FROM public.profiles
+  WHERE id IN (_tipper_id, _recipient_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT camly_balance INTO _balance
+  FROM public.profiles
+  WHERE id = _tipper_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'tipper_not_found');
+  END IF;
+
+  SELECT * INTO _tip
+  FROM public.camly_tips
+  WHERE tipper_id = _tipper_id AND idempotency_key = _idempotency_key;
+
+  IF NOT FOUND THEN
+    SELECT COALESCE(sum(amount), 0) INTO _sent_today
+    FROM public.camly_tips
+    WHERE tipper_id = _tipper_id AND created_at > now() - interval '24 hours';
+
+    IF _sent_today + _amount > _daily_limit THEN
+      RETURN jsonb_build_object('error', 'daily_limit', 'remaining', GREATEST(_daily_limit - _sent_today, 0));
+    END IF;
+
+    IF _balance < _amount THEN
+      RETURN jsonb_build_object('error', 'insufficient_balance', 'balance', _balance);
+    END IF;
+
+    INSERT INTO public.camly_transactions (type, from_user_id, to_user_id, amount, description, reference_type, reference_id)
+    VALUES (
+      'tip', _tipper_id, _recipient_id, _amount,
+      CASE WHEN _post_id IS NOT NULL THEN 'Tip for post' ELSE 'Tip for comment' END,
+      CASE WHEN _post_id IS NOT NULL THEN 'post' ELSE 'comment' END,
+      COALESCE(_post_id, _comment_id)::text
+    )
+    RETURNING id INTO _transaction_id;
+
+    INSERT INTO public.camly_tips (transaction_id, tipper_id, recipient_id, post_id, comment_id, amount, idempotency_key)
+    VALUES (_transaction_id, _tipper_id, _recipient_id, _post_id, _comment_id, _amount, _idempotency_key)
+    RETURNING * INTO _tip;
+
+    IF _post_id IS NOT NULL THEN
+      UPDATE public.posts
+      SET tip_total = tip_total + _amount,
+          tipper_count = (SELECT count(DISTINCT tipper_id) FROM public.camly_tips WHERE post_id = _post_id)
+      WHERE id = _post_id;
+    ELSE
+      UPDATE public.comments
+      SET tip_total = tip_total + _amount,
+          tipper_count = (SELECT count(DISTINCT tipper_id) FROM public.camly_tips WHERE comment_id = _comment_id)
+      WHERE id = _comment_id;
+    END IF;
+  END IF;
+
+  IF _tip.post_id IS NOT NULL THEN
+    SELECT tip_total, tipper_count INTO _tip_total, _tipper_count FROM public.posts WHERE id = _tip.post_id;
+  ELSE
+    SELECT tip_total, tipper_count INTO _tip_total, _tipper_count FROM public.comments WHERE id = _tip.comment_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'tip', to_jsonb(_tip) - 'idempotency_key',
+    'tip_total', _tip_total,
+    'tipper_count', _tipper_count,
+    'balance', (SELECT camly_balance FROM public.profiles WHERE id = _tipper_id)
+  );
+END;
+$$;
@@ -0,0 +1,52 @@
+-- =====================================================
+-- Signing key promotion waits for JWKS caches
+-- Clients may cache the JWKS for a day or more, so a key
+-- promoted too soon signs tokens they cannot verify.
+-- A key's created_at is when the Worker first published
+-- it; promotion is refused until it has been published
+-- for at least _min_published_seconds.
+-- =====================================================
+
+DROP FUNCTION public.promote_oauth_signing_key(text);
+
+-- Returns {"promoted": true}, or {"error": <code>} when the key cannot be promoted yet
+CREATE OR REPLACE FUNCTION public.promote_oauth_signing_key(_kid text, _min_published_seconds integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _key public.oauth_signing_keys;
+BEGIN
+  -- Serialise promotions so two admins cannot both pass the checks
+  SELECT * INTO _key
+  FROM public.oauth_signing_keys
+  WHERE kid = _kid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'not_published');
+  END IF;
+
+  IF _key.status <> 'current'
+     AND _key.created_at > now() - make_interval(secs => _min_published_seconds) THEN
+    RETURN jsonb_build_object(
+      'error', 'published_too_recently',
+      'promotable_at', _key.created_at + make_interval(secs => _min_published_seconds)
+    );
+  END IF;
+
+  UPDATE public.oauth_signing_keys
+  SET status = 'retiring', retired_at = now()
+  WHERE status = 'current' AND kid <> _kid;
+
+  UPDATE public.oauth_signing_keys
+  SET status = 'current', promoted_at = now(), retired_at = NULL
+  WHERE kid = _kid;
+
+  RETURN jsonb_build_object('promoted', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.promote_oauth_signing_key(text, integer) FROM PUBLIC, anon, authenticated;
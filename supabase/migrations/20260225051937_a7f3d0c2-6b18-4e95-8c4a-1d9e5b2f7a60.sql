@@ -0,0 +1,19 @@
+-- =====================================================
+-- Store each client's token_endpoint_auth_method
+-- It was derived from is_confidential, so clients that
+-- registered client_secret_post were reported back as
+-- client_secret_basic (RFC 7591/7592 round-trips).
+-- =====================================================
+
+ALTER TABLE public.oauth_clients
+  ADD COLUMN token_endpoint_auth_method text NOT NULL DEFAULT 'client_secret_basic'
+    CHECK (token_endpoint_auth_method IN ('client_secret_basic', 'client_secret_post', 'none'));
+
+UPDATE public.oauth_clients
+SET token_endpoint_auth_method = 'none'
+WHERE is_confidential = false;
+
+-- Only public clients authenticate without a secret
+ALTER TABLE public.oauth_clients
+  ADD CONSTRAINT oauth_clients_auth_method_matches_confidential
+  CHECK ((token_endpoint_auth_method = 'none') = (is_confidential = false));
@@ -0,0 +1,53 @@
+/**
+ * Daily Check-In
+ * Streaks and crediting live in the camly_check_in() database function,
+ * so the check-in row and its ledger entry are written atomically.
+ */
+
+import type { CheckInStatus, CheckInResult } from './types';
+
+interface Env {
+  SUPABASE_URL: string;
+  SUPABASE_SERVICE_ROLE_KEY: string;
+}
+
+async function callRpc<T>(name: string, params: Record<string, unknown>, env: Env): Promise<T | null> {
+  const url = `${env.SUPABASE_URL}/rest/v1/rpc/${name}`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    console.error(`Failed to call ${name}:`, response.status, await response.text());
+    return null;
+  }
+
+  return await response.json() as T;
+}
+
+export async function getCheckInStatus(userId: string, timezone: string, env: Env): Promise<CheckInStatus | null> {
+  return callRpc<CheckInStatus>('camly_check_in_status', { _user_id: userId, _timezone: timezone }, env);
+}
+
+export async function checkIn(userId: string, timezone: string, env: Env): Promise<CheckInResult | null> {
+  return callRpc<CheckInResult>('camly_check_in', { _user_id: userId, _timezone: timezone }, env);
+}
+
+/**
+ * Whether the runtime knows the IANA timezone, so a typo in config fails loudly
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
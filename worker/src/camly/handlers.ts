@@ -0,0 +1,217 @@
+/**
+ * HTTP Request Handlers for the CAMLY COIN Ledger
+ */
+
+import { getBalance, getTransactionsForUser } from './ledger';
+import { decodeCursor } from '../utils/cursor';
+import { getCheckInStatus, checkIn, isValidTimezone } from './checkin';
+import { sendTip } from './tips';
+import type { TipTarget, TipError } from './types';
+import {
+  DEFAULT_TRANSACTIONS_LIMIT,
+  MAX_TRANSACTIONS_LIMIT,
+  DEFAULT_CHECK_IN_TIMEZONE,
+  TIP_MIN_AMOUNT,
+  TIP_MAX_AMOUNT,
+} from './types';
+
+interface Env {
+  SUPABASE_URL: string;
+  SUPABASE_SERVICE_ROLE_KEY: string;
+  ALLOWED_ORIGINS?: string;
+  CHECK_IN_TIMEZONE?: string;
+}
+
+// ========== HELPERS ==========
+function getCorsHeaders(request: Request, env: Env): HeadersInit {
+  const origin = request.headers.get('Origin') || '';
+  const allowedOrigins = (env.ALLOWED_ORIGINS || '*').split(',').map(o => o.trim());
+  const isAllowed = allowedOrigins.includes('*') || allowedOrigins.includes(origin);
+
+  if (isAllowed) {
+    return {
+      'Access-Control-Allow-Origin': origin || '*',
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    };
+  }
+  return {};
+}
+
+function jsonResponse(data: unknown, status: number, env: Env, request: Request): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      ...getCorsHeaders(request, env),
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+function errorResponse(message: string, status: number, env: Env, request: Request): Response {
+  return jsonResponse({ error: message, success: false }, status, env, request);
+}
+
+function getCheckInTimezone(env: Env): string | null {
+  const timezone = env.CHECK_IN_TIMEZONE || DEFAULT_CHECK_IN_TIMEZONE;
+  if (!isValidTimezone(timezone)) {
+    console.error('Invalid CHECK_IN_TIMEZONE:', timezone);
+    return null;
+  }
+  return timezone;
+}
+
+const TIP_ERRORS: Record<TipError, { message: string; status: number }> = {
+  invalid_target: { message: 'Tip a post or a comment', status: 400 },
+  tipper_not_found: { message: 'Profile not found', status: 404 },
+  not_found: { message: 'Post or comment not found', status: 404 },
+  self_tip: { message: 'You cannot tip yourself', status: 400 },
+  daily_limit: { message: 'Daily tip limit reached', status: 429 },
+  insufficient_balance: { message: 'Insufficient CAMLY balance', status: 400 },
+};
+
+// ========== CAMLY HANDLERS ==========
+
+/**
+ * GET /api/camly/balance - Current user's balance
+ */
+export async function handleGetCamlyBalance(
+  userId: string,
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const balance = await getBalance(userId, env);
+
+  if (balance === null) {
+    return errorResponse('Failed to fetch balance', 500, env, request);
+  }
+
+  return jsonResponse({ balance }, 200, env, request);
+}
+
+/**
+ * GET /api/camly/transactions - Current user's transaction history, newest first
+ */
+export async function handleGetCamlyTransactions(
+  userId: string,
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const url = new URL(request.url);
+  const limit = Math.min(
+    Math.max(parseInt(url.searchParams.get('limit') || '', 10) || DEFAULT_TRANSACTIONS_LIMIT, 1),
+    MAX_TRANSACTIONS_LIMIT
+  );
+  // offset paging is deprecated in favour of cursor; a cursor takes precedence
+  const offset = Math.max(parseInt(url.searchParams.get('offset') || '0', 10) || 0, 0);
+  const cursorParam = url.searchParams.get('cursor');
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+  if (cursorParam && !cursor) {
+    return errorResponse('Invalid cursor', 400, env, request);
+  }
+
+  const result = await getTransactionsForUser(userId, env, limit, offset, cursor);
+
+  if (!result) {
+    return errorResponse('Failed to fetch transactions', 500, env, request);
+  }
+
+  return jsonResponse({
+    transactions: result.transactions,
+    total: result.total,
+    limit,
+    offset,
+    next_cursor: result.nextCursor,
+  }, 200, env, request);
+}
+
+/**
+ * GET /api/camly/check-in - Current user's check-in streak and next reward
+ */
+export async function handleGetCheckInStatus(
+  userId: string,
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const timezone = getCheckInTimezone(env);
+  if (!timezone) {
+    return errorResponse('Check-in is misconfigured', 500, env, request);
+  }
+
+  const status = await getCheckInStatus(userId, timezone, env);
+
+  if (!status) {
+    return errorResponse('Failed to fetch check-in status', 500, env, request);
+  }
+
+  return jsonResponse(status, 200, env, request);
+}
+
+/**
+ * POST /api/camly/check-in - Check in for today and collect the reward
+ */
+export async function handleCheckIn(
+  userId: string,
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const timezone = getCheckInTimezone(env);
+  if (!timezone) {
+    return errorResponse('Check-in is misconfigured', 500, env, request);
+  }
+
+  const result = await checkIn(userId, timezone, env);
+
+  if (!result) {
+    return errorResponse('Failed to check in', 500, env, request);
+  }
+
+  if (result.reward === null) {
+    return jsonResponse({ ...result, error: 'Already checked in today', success: false }, 409, env, request);
+  }
+
+  return jsonResponse({ ...result, success: true }, 200, env, request);
+}
+
+/**
+ * POST /api/posts/:id/tip and /api/comments/:id/tip - Send CAMLY to the author
+ * Body: { amount, idempotency_key }; repeating a key returns the original tip.
+ */
+export async function handleTip(
+  userId: string,
+  target: TipTarget,
+  request: Request,
+  env: Env
+): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400, env, request);
+  }
+
+  const { amount, idempotency_key } = (body || {}) as Record<string, unknown>;
+
+  if (typeof amount !== 'number' || !Number.isInteger(amount) || amount < TIP_MIN_AMOUNT || amount > TIP_MAX_AMOUNT) {
+    return errorResponse(`amount must be a whole number from ${TIP_MIN_AMOUNT} to ${TIP_MAX_AMOUNT}`, 400, env, request);
+  }
+
+  if (typeof idempotency_key !== 'string' || !/^[A-Za-z0-9_-]{8,64}$/.test(idempotency_key)) {
+    return errorResponse('idempotency_key must be 8-64 letters, digits, "-" or "_"', 400, env, request);
+  }
+
+  const result = await sendTip(userId, target, amount, idempotency_key, env);
+
+  if (!result) {
+    return errorResponse('Failed to send tip', 500, env, request);
+  }
+
+  if ('error' in result) {
+    const { message, status } = TIP_ERRORS[result.error];
+    return jsonResponse({ ...result, error: message, code: result.error, success: false }, status, env, request);
+  }
+
+  return jsonResponse({ ...result, success: true }, 200, env, request);
+}
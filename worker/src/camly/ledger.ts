@@ -0,0 +1,117 @@
+/**
+ * CAMLY COIN Ledger Queries
+ */
+
+import type { CamlyTransactionData, CamlyHistoryEntry, CamlyCounterparty } from './types';
+import { cursorFilter, paginate, Cursor } from '../utils/cursor';
+
+interface Env {
+  SUPABASE_URL: string;
+  SUPABASE_SERVICE_ROLE_KEY: string;
+}
+
+// ========== SUPABASE HELPERS ==========
+
+/**
+ * Get the user's balance
+ * profiles.camly_balance is maintained by the ledger trigger, never written directly
+ */
+export async function getBalance(userId: string, env: Env): Promise<number | null> {
+  const url = `${env.SUPABASE_URL}/rest/v1/profiles?id=eq.${userId}&select=camly_balance`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) {
+    console.error('Failed to get CAMLY balance:', response.status);
+    return null;
+  }
+
+  const profiles = await response.json() as Array<{ camly_balance: number }>;
+  return profiles[0] ? Number(profiles[0].camly_balance) : null;
+}
+
+async function getCounterparties(ids: string[], env: Env): Promise<Map<string, CamlyCounterparty>> {
+  const counterparties = new Map<string, CamlyCounterparty>();
+  if (ids.length === 0) return counterparties;
+
+  const idsFilter = ids.map(id => `"${id}"`).join(',');
+  const url = `${env.SUPABASE_URL}/rest/v1/profiles?id=in.(${idsFilter})&select=id,display_name,avatar_url`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  // Counterparty details are decoration; the history is still correct without them
+  if (response.ok) {
+    const profiles = await response.json() as CamlyCounterparty[];
+    for (const profile of profiles) {
+      counterparties.set(profile.id, profile);
+    }
+  }
+
+  return counterparties;
+}
+
+/**
+ * Get the user's transactions, newest first, as seen from their side
+ */
+export async function getTransactionsForUser(
+  userId: string,
+  env: Env,
+  limit: number,
+  offset: number,
+  cursor: Cursor | null = null
+): Promise<{ transactions: CamlyHistoryEntry[]; total: number; nextCursor: string | null } | null> {
+  // The participant filter sits under and= so it does not clash with the cursor's or=
+  let url = `${env.SUPABASE_URL}/rest/v1/camly_transactions?and=(or(from_user_id.eq.${userId},to_user_id.eq.${userId}))&order=created_at.desc,id.desc&limit=${limit + 1}`;
+  url += cursor ? `&${cursorFilter(cursor, 'desc')}` : `&offset=${offset}`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Prefer': 'count=exact',
+    },
+  });
+
+  if (!response.ok) {
+    console.error('Failed to get CAMLY transactions:', response.status);
+    return null;
+  }
+
+  const rows = await response.json() as CamlyTransactionData[];
+  const total = parseInt(response.headers.get('content-range')?.split('/')[1] || '0', 10);
+  const { items, nextCursor } = paginate(rows, limit);
+
+  const counterpartyIds = new Set<string>();
+  for (const row of items) {
+    const other = row.to_user_id === userId ? row.from_user_id : row.to_user_id;
+    if (other) counterpartyIds.add(other);
+  }
+  const counterparties = await getCounterparties(Array.from(counterpartyIds), env);
+
+  const transactions = items.map((row): CamlyHistoryEntry => {
+    const incoming = row.to_user_id === userId;
+    const other = incoming ? row.from_user_id : row.to_user_id;
+
+    return {
+      id: row.id,
+      type: row.type,
+      direction: incoming ? 'in' : 'out',
+      amount: Number(row.amount),
+      description: row.description,
+      counterparty: other ? counterparties.get(other) || { id: other, display_name: null, avatar_url: null } : null,
+      created_at: row.created_at,
+    };
+  });
+
+  return { transactions, total, nextCursor };
+}
@@ -0,0 +1,47 @@
+/**
+ * CAMLY Tips
+ * Balance, daily limit and idempotency checks run inside camly_tip(),
+ * under a lock on the tipper's profile row.
+ */
+
+import type { TipTarget, TipResult } from './types';
+import { TIP_DAILY_LIMIT } from './types';
+
+interface Env {
+  SUPABASE_URL: string;
+  SUPABASE_SERVICE_ROLE_KEY: string;
+}
+
+export async function sendTip(
+  tipperId: string,
+  target: TipTarget,
+  amount: number,
+  idempotencyKey: string,
+  env: Env
+): Promise<TipResult | null> {
+  const url = `${env.SUPABASE_URL}/rest/v1/rpc/camly_tip`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      _tipper_id: tipperId,
+      _post_id: 'post_id' in target ? target.post_id : null,
+      _comment_id: 'comment_id' in target ? target.comment_id : null,
+      _amount: amount,
+      _idempotency_key: idempotencyKey,
+      _daily_limit: TIP_DAILY_LIMIT,
+    }),
+  });
+
+  if (!response.ok) {
+    console.error('Failed to send tip:', response.status, await response.text());
+    return null;
+  }
+
+  return await response.json() as TipResult;
+}
@@ -0,0 +1,79 @@
+/**
+ * CAMLY COIN Ledger Types for Cloudflare Worker
+ */
+
+export type CamlyTransactionType = 'reward' | 'tip' | 'check_in' | 'withdrawal' | 'adjustment';
+
+// A camly_transactions row; NULL on either side is the system account
+export interface CamlyTransactionData {
+  id: string;
+  type: CamlyTransactionType;
+  from_user_id: string | null;
+  to_user_id: string | null;
+  amount: number;
+  description: string | null;
+  reference_type: string | null;
+  reference_id: string | null;
+  created_at: string;
+}
+
+export interface CamlyCounterparty {
+  id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+}
+
+// A transaction from one user's point of view
+export interface CamlyHistoryEntry {
+  id: string;
+  type: CamlyTransactionType;
+  direction: 'in' | 'out';
+  amount: number;
+  description: string | null;
+  counterparty: CamlyCounterparty | null;
+  created_at: string;
+}
+
+export const DEFAULT_TRANSACTIONS_LIMIT = 20;
+export const MAX_TRANSACTIONS_LIMIT = 50;
+
+// Calendar days for check-ins are counted in this timezone unless CHECK_IN_TIMEZONE is set
+export const DEFAULT_CHECK_IN_TIMEZONE = 'Asia/Ho_Chi_Minh';
+
+export interface CheckInStatus {
+  checked_in_today: boolean;
+  streak: number;
+  next_reward: number;
+  next_check_in_at: string;
+  timezone: string;
+}
+
+export interface CheckInResult extends CheckInStatus {
+  // null when the user had already checked in today
+  reward: number | null;
+}
+
+// Tips: per-tip bounds and what one user may send in any rolling 24 hours
+export const TIP_MIN_AMOUNT = 1;
+export const TIP_MAX_AMOUNT = 1000;
+export const TIP_DAILY_LIMIT = 5000;
+
+export type TipTarget = { post_id: string } | { comment_id: string };
+
+export interface TipData {
+  id: string;
+  transaction_id: string;
+  tipper_id: string;
+  recipient_id: string;
+  post_id: string | null;
+  comment_id: string | null;
+  amount: number;
+  created_at: string;
+}
+
+export type TipError = 'invalid_target' | 'tipper_not_found' | 'not_found' | 'self_tip' | 'daily_limit' | 'insufficient_balance';
+
+// What camly_tip() returns: the (possibly replayed) tip, or why it was rejected
+export type TipResult =
+  | { tip: TipData; tip_total: number; tipper_count: number; balance: number }
+  | { error: TipError; remaining?: number; balance?: number };
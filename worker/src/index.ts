@@ -15,10 +15,28 @@ import { createRemoteJWKSet, jwtVerify, JWTPayload } from 'jose';
 // OAuth Imports
 import { handleOpenIDConfiguration } from './oauth/discovery';
 import { handleJWKS } from './oauth/jwks';
-import { handleAuthorize, handleAuthorizeCallback } from './oauth/authorize';
+import { handleAuthorize, handleAuthorizeSession, handleAuthorizeCallback } from './oauth/authorize';
 import { handleToken } from './oauth/token';
+import { handleRevoke } from './oauth/revoke';
+import { handleIntrospect } from './oauth/introspect';
+import { handleEndSession, handleEndAllSessions } from './oauth/logout';
+import { handleDeviceAuthorization, handleDeviceSession, handleDeviceCallback } from './oauth/device';
+import { handleRegisterClient, handleClientConfiguration } from './oauth/register';
+import { deliverPendingLogouts, deliverQueuedLogouts } from './oauth/backchannel';
+import { getConnectedApps, revokeConnectedApp } from './oauth/connected-apps';
 import { handleUserInfo } from './oauth/userinfo';
-import type { OAuthEnv } from './oauth/types';
+import { handleListSigningKeys, handlePromoteSigningKey } from './oauth/admin';
+import {
+  validateClientMetadata,
+  toClientMetadata,
+  createClient,
+  updateClient,
+  getClientsCreatedBy,
+  getClientCreatedBy,
+  rotateClientSecret,
+  setClientActive,
+} from './oauth/clients';
+import type { OAuthClient, OAuthEnv, UserSession } from './oauth/types';
 
 // Messaging Imports
 import {
@@ -30,6 +48,15 @@ import {
   handleEditMessage,
   handleDeleteMessage,
 } from './messages/handlers';
+import { handleGetSiweNonce, handleLinkWallet, handleUnlinkWallet, handleSiweLogin } from './siwe/handlers';
+import {
+  handleGetCamlyBalance,
+  handleGetCamlyTransactions,
+  handleGetCheckInStatus,
+  handleCheckIn,
+  handleTip,
+} from './camly/handlers';
+import { decodeCursor, cursorFilter, paginate, Cursor } from './utils/cursor';
 
 // ========== TYPES ==========
 interface Env extends OAuthEnv {
@@ -44,8 +71,12 @@ interface Env extends OAuthEnv {
   FUNID_RSA_PRIVATE_KEY?: string;
   FUNID_RSA_PUBLIC_KEY?: string;
   FUNID_RSA_KID?: string;
+  FUNID_RSA_KEYSET?: string;
   FUNID_ISSUER?: string;
   FUNID_FRONTEND_URL?: string;
+  FUNID_INITIAL_ACCESS_TOKEN?: string;
+  // Daily check-in
+  CHECK_IN_TIMEZONE?: string;
 }
 
 interface ProfileData {
@@ -59,6 +90,9 @@ interface ProfileData {
   updated_at: string;
 }
 
+// What anyone may see of a profile at /api/profiles/:id
+type PublicProfileData = Omit<ProfileData, 'updated_at'> & { post_count: number };
+
 // ========== CONSTANTS ==========
 const ALLOWED_PROFILE_FIELDS = ['display_name', 'bio', 'avatar_url', 'website'];
 const BLOCKED_PROFILE_FIELDS = ['id', 'camly_balance', 'wallet_address', 'created_at', 'updated_at'];
@@ -74,6 +108,9 @@ const MAX_COMMENT_LENGTH = 2000;
 const DEFAULT_COMMENTS_LIMIT = 20;
 const MAX_COMMENTS_LIMIT = 50;
 
+// Must match the daily entry in wrangler.toml [triggers] crons
+const REPAIR_COUNTERS_CRON = '17 3 * * *';
+
 // Media constants
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 const ALLOWED_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
@@ -132,6 +169,8 @@ interface CommentData {
   post_id: string;
   user_id: string;
   content: string;
+  tip_total: number;
+  tipper_count: number;
   created_at: string;
   updated_at: string;
   author?: {
@@ -208,6 +247,15 @@ function errorResponse(message: string, status: number, env: Env, request: Reque
   return jsonResponse({ error: message, success: false }, status, env, request);
 }
 
+// OAuth handlers build their own responses; browser-facing ones still need CORS
+function withCorsHeaders(response: Response, env: Env, request: Request): Response {
+  const headers = new Headers(response.headers);
+  for (const [name, value] of Object.entries(getCorsHeaders(request, env))) {
+    headers.set(name, value);
+  }
+  return new Response(response.body, { status: response.status, headers });
+}
+
 // ========== TOKEN EXTRACTION ==========
 function extractToken(request: Request): string | null {
   const authHeader = request.headers.get('Authorization');
@@ -237,6 +285,28 @@ async function withAuth(
   return handler(payload.sub, request, env);
 }
 
+// ========== OAUTH USER SESSION ==========
+// Optional-auth variant of withAuth for the OAuth consent flow, which also needs auth_time
+async function getUserSession(request: Request, env: Env): Promise<UserSession | null> {
+  const token = extractToken(request);
+  if (!token) return null;
+
+  const payload = await verifyJWT(token, env);
+  if (!payload?.sub) return null;
+
+  // Supabase records each sign-in in amr; iat only reflects the last token refresh
+  const amr = Array.isArray(payload.amr) ? payload.amr as Array<{ timestamp?: unknown }> : [];
+  const signInTimes = amr
+    .map((entry) => entry.timestamp)
+    .filter((timestamp): timestamp is number => typeof timestamp === 'number');
+
+  return {
+    user_id: payload.sub,
+    auth_time: signInTimes.length > 0 ? Math.max(...signInTimes) : payload.iat ?? Math.floor(Date.now() / 1000),
+    email: typeof payload.email === 'string' ? payload.email : undefined,
+  };
+}
+
 // ========== INPUT VALIDATION ==========
 function sanitizeProfileUpdate(body: unknown): Record<string, string | null> | null {
   if (!body || typeof body !== 'object') {
@@ -296,6 +366,30 @@ async function getProfileFromSupabase(userId: string, env: Env): Promise<Profile
   return profiles[0] || null;
 }
 
+async function getPublicProfileFromSupabase(userId: string, env: Env): Promise<PublicProfileData | null> {
+  // posts(count) is embedded so the profile and its post count come back in one request
+  const url = `${env.SUPABASE_URL}/rest/v1/profiles?id=eq.${userId}&select=id,display_name,bio,avatar_url,wallet_address,camly_balance,created_at,posts:posts!user_id(count)`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    console.error('Supabase GET public profile error:', response.status);
+    return null;
+  }
+
+  const rows = await response.json() as (Omit<PublicProfileData, 'post_count'> & { posts: { count: number }[] })[];
+  if (!rows[0]) return null;
+
+  const { posts, ...profile } = rows[0];
+  return { ...profile, post_count: posts[0]?.count ?? 0 };
+}
+
 async function updateProfileInSupabase(
   userId: string, 
   data: Record<string, string | null>, 
@@ -335,6 +429,8 @@ interface PostData {
   likes_count: number;
   comments_count: number;
   shares_count: number;
+  tip_total: number;
+  tipper_count: number;
   created_at: string;
   updated_at: string;
   author?: {
@@ -456,10 +552,16 @@ function sanitizePostUpdate(body: unknown): Partial<CreatePostInput> | null {
 async function getPostsFromSupabase(
   env: Env,
   limit: number = DEFAULT_POSTS_LIMIT,
-  offset: number = 0
-): Promise<{ posts: PostData[]; total: number } | null> {
-  // Get posts with author info
-  const url = `${env.SUPABASE_URL}/rest/v1/posts?select=*,author:profiles!user_id(id,display_name,avatar_url)&order=created_at.desc&limit=${limit}&offset=${offset}`;
+  offset: number = 0,
+  cursor: Cursor | null = null,
+  authorId: string | null = null
+): Promise<{ posts: PostData[]; total: number; nextCursor: string | null } | null> {
+  // Get posts with author info; one extra row tells whether there is a next page
+  let url = `${env.SUPABASE_URL}/rest/v1/posts?select=*,author:profiles!user_id(id,display_name,avatar_url)&order=created_at.desc,id.desc&limit=${limit + 1}`;
+  if (authorId) {
+    url += `&user_id=eq.${authorId}`;
+  }
+  url += cursor ? `&${cursorFilter(cursor, 'desc')}` : `&offset=${offset}`;
   
   const response = await fetch(url, {
     headers: {
@@ -475,10 +577,11 @@ async function getPostsFromSupabase(
     return null;
   }
 
-  const posts = await response.json() as PostData[];
+  const rows = await response.json() as PostData[];
   const total = parseInt(response.headers.get('content-range')?.split('/')[1] || '0', 10);
+  const { items: posts, nextCursor } = paginate(rows, limit);
   
-  return { posts, total };
+  return { posts, total, nextCursor };
 }
 
 async function getPostById(postId: string, env: Env): Promise<PostData | null> {
@@ -606,8 +709,16 @@ async function getLikeByUserAndPost(userId: string, postId: string, env: Env): P
   return likes[0] || null;
 }
 
-async function createLikeInSupabase(userId: string, postId: string, env: Env): Promise<LikeData | null> {
-  const url = `${env.SUPABASE_URL}/rest/v1/likes`;
+/**
+ * Insert a like, ignoring one that already exists
+ * posts.likes_count is kept in step by a trigger on likes.
+ */
+async function createLikeInSupabase(
+  userId: string,
+  postId: string,
+  env: Env
+): Promise<'created' | 'exists' | 'post_not_found' | 'error'> {
+  const url = `${env.SUPABASE_URL}/rest/v1/likes?on_conflict=post_id,user_id`;
   
   const response = await fetch(url, {
     method: 'POST',
@@ -615,21 +726,27 @@ async function createLikeInSupabase(userId: string, postId: string, env: Env): P
       'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
       'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
       'Content-Type': 'application/json',
-      'Prefer': 'return=representation',
+      'Prefer': 'return=representation,resolution=ignore-duplicates',
     },
     body: JSON.stringify({ user_id: userId, post_id: postId }),
   });
 
   if (!response.ok) {
+    const error = await response.json().catch(() => null) as { code?: string } | null;
+    // 23503: foreign key violation, the post does not exist
+    if (error?.code === '23503') return 'post_not_found';
     console.error('Supabase create like error:', response.status);
-    return null;
+    return 'error';
   }
 
   const likes = await response.json() as LikeData[];
-  return likes[0] || null;
+  return likes.length > 0 ? 'created' : 'exists';
 }
 
-async function deleteLikeFromSupabase(userId: string, postId: string, env: Env): Promise<boolean> {
+/**
+ * Delete a like; null on failure, otherwise whether a like was removed
+ */
+async function deleteLikeFromSupabase(userId: string, postId: string, env: Env): Promise<boolean | null> {
   const url = `${env.SUPABASE_URL}/rest/v1/likes?user_id=eq.${userId}&post_id=eq.${postId}`;
   
   const response = await fetch(url, {
@@ -638,31 +755,41 @@ async function deleteLikeFromSupabase(userId: string, postId: string, env: Env):
       'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
       'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
       'Content-Type': 'application/json',
+      'Prefer': 'return=representation',
     },
   });
 
-  return response.ok;
+  if (!response.ok) {
+    console.error('Supabase delete like error:', response.status);
+    return null;
+  }
+
+  const likes = await response.json() as LikeData[];
+  return likes.length > 0;
 }
 
-async function updatePostLikesCount(postId: string, delta: number, env: Env): Promise<boolean> {
-  // Get current likes_count
-  const post = await getPostById(postId, env);
-  if (!post) return false;
-  
-  const newCount = Math.max(0, (post.likes_count || 0) + delta);
-  
-  const url = `${env.SUPABASE_URL}/rest/v1/posts?id=eq.${postId}`;
+/**
+ * Recompute likes_count/comments_count for posts that drifted; returns how many were fixed
+ */
+async function repairPostCounters(env: Env): Promise<number | null> {
+  const url = `${env.SUPABASE_URL}/rest/v1/rpc/repair_post_counters`;
+
   const response = await fetch(url, {
-    method: 'PATCH',
+    method: 'POST',
     headers: {
       'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
       'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ likes_count: newCount }),
+    body: '{}',
   });
 
-  return response.ok;
+  if (!response.ok) {
+    console.error('Failed to repair post counters:', response.status);
+    return null;
+  }
+
+  return await response.json() as number;
 }
 
 // ========== COMMENTS SUPABASE HELPERS ==========
@@ -670,9 +797,11 @@ async function getCommentsFromSupabase(
   postId: string,
   env: Env,
   limit: number = DEFAULT_COMMENTS_LIMIT,
-  offset: number = 0
-): Promise<{ comments: CommentData[]; total: number } | null> {
-  const url = `${env.SUPABASE_URL}/rest/v1/comments?post_id=eq.${postId}&select=*,author:profiles!user_id(id,display_name,avatar_url)&order=created_at.asc&limit=${limit}&offset=${offset}`;
+  offset: number = 0,
+  cursor: Cursor | null = null
+): Promise<{ comments: CommentData[]; total: number; nextCursor: string | null } | null> {
+  let url = `${env.SUPABASE_URL}/rest/v1/comments?post_id=eq.${postId}&select=*,author:profiles!user_id(id,display_name,avatar_url)&order=created_at.asc,id.asc&limit=${limit + 1}`;
+  url += cursor ? `&${cursorFilter(cursor, 'asc')}` : `&offset=${offset}`;
   
   const response = await fetch(url, {
     headers: {
@@ -688,10 +817,11 @@ async function getCommentsFromSupabase(
     return null;
   }
 
-  const comments = await response.json() as CommentData[];
+  const rows = await response.json() as CommentData[];
   const total = parseInt(response.headers.get('content-range')?.split('/')[1] || '0', 10);
+  const { items: comments, nextCursor } = paginate(rows, limit);
   
-  return { comments, total };
+  return { comments, total, nextCursor };
 }
 
 async function getCommentById(commentId: string, env: Env): Promise<CommentData | null> {
@@ -767,26 +897,6 @@ async function deleteCommentFromSupabase(commentId: string, env: Env): Promise<b
   return response.ok;
 }
 
-async function updatePostCommentsCount(postId: string, delta: number, env: Env): Promise<boolean> {
-  const post = await getPostById(postId, env);
-  if (!post) return false;
-  
-  const newCount = Math.max(0, (post.comments_count || 0) + delta);
-  
-  const url = `${env.SUPABASE_URL}/rest/v1/posts?id=eq.${postId}`;
-  const response = await fetch(url, {
-    method: 'PATCH',
-    headers: {
-      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
-      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ comments_count: newCount }),
-  });
-
-  return response.ok;
-}
-
 // ========== API HANDLERS ==========
 async function handleGetProfile(userId: string, request: Request, env: Env): Promise<Response> {
   const profile = await getProfileFromSupabase(userId, env);
@@ -798,6 +908,44 @@ async function handleGetProfile(userId: string, request: Request, env: Env): Pro
   return jsonResponse({ success: true, profile }, 200, env, request);
 }
 
+async function handleGetPublicProfile(profileId: string, request: Request, env: Env): Promise<Response> {
+  const profile = await getPublicProfileFromSupabase(profileId, env);
+
+  if (!profile) {
+    return errorResponse('Profile not found', 404, env, request);
+  }
+
+  return jsonResponse({ success: true, profile }, 200, env, request);
+}
+
+async function handleGetProfilePosts(profileId: string, request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const limit = Math.min(
+    parseInt(url.searchParams.get('limit') || String(DEFAULT_POSTS_LIMIT), 10),
+    MAX_POSTS_LIMIT
+  );
+  // New endpoint, so cursor paging only
+  const cursorParam = url.searchParams.get('cursor');
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+  if (cursorParam && !cursor) {
+    return errorResponse('Invalid cursor', 400, env, request);
+  }
+
+  const result = await getPostsFromSupabase(env, limit, 0, cursor, profileId);
+
+  if (!result) {
+    return errorResponse('Failed to fetch posts', 500, env, request);
+  }
+
+  return jsonResponse({
+    success: true,
+    posts: result.posts,
+    total: result.total,
+    limit,
+    next_cursor: result.nextCursor,
+  }, 200, env, request);
+}
+
 async function handleUpdateProfile(userId: string, request: Request, env: Env): Promise<Response> {
   let body: unknown;
   try {
@@ -1175,9 +1323,15 @@ async function handleGetPosts(request: Request, env: Env): Promise<Response> {
     parseInt(url.searchParams.get('limit') || String(DEFAULT_POSTS_LIMIT), 10),
     MAX_POSTS_LIMIT
   );
+  // offset paging is deprecated in favour of cursor; a cursor takes precedence
   const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+  const cursorParam = url.searchParams.get('cursor');
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+  if (cursorParam && !cursor) {
+    return errorResponse('Invalid cursor', 400, env, request);
+  }
 
-  const result = await getPostsFromSupabase(env, limit, offset);
+  const result = await getPostsFromSupabase(env, limit, offset, cursor);
   
   if (!result) {
     return errorResponse('Failed to fetch posts', 500, env, request);
@@ -1189,9 +1343,20 @@ async function handleGetPosts(request: Request, env: Env): Promise<Response> {
     total: result.total,
     limit,
     offset,
+    next_cursor: result.nextCursor,
   }, 200, env, request);
 }
 
+async function handleGetPost(postId: string, request: Request, env: Env): Promise<Response> {
+  const post = await getPostById(postId, env);
+
+  if (!post) {
+    return errorResponse('Post not found', 404, env, request);
+  }
+
+  return jsonResponse({ success: true, post }, 200, env, request);
+}
+
 async function handleCreatePost(userId: string, request: Request, env: Env): Promise<Response> {
   let body: unknown;
   try {
@@ -1280,51 +1445,33 @@ async function handleDeletePost(userId: string, postId: string, request: Request
 
 // ========== LIKES API HANDLERS ==========
 async function handleLikePost(userId: string, postId: string, request: Request, env: Env): Promise<Response> {
-  // Check if post exists
-  const post = await getPostById(postId, env);
-  if (!post) {
-    return errorResponse('Post not found', 404, env, request);
-  }
+  const result = await createLikeInSupabase(userId, postId, env);
 
-  // Check if already liked
-  const existingLike = await getLikeByUserAndPost(userId, postId, env);
-  if (existingLike) {
-    return jsonResponse({ success: true, liked: true, message: 'Already liked' }, 200, env, request);
+  if (result === 'post_not_found') {
+    return errorResponse('Post not found', 404, env, request);
   }
 
-  // Create like
-  const like = await createLikeInSupabase(userId, postId, env);
-  if (!like) {
+  if (result === 'error') {
     return errorResponse('Failed to like post', 500, env, request);
   }
 
-  // Update likes count
-  await updatePostLikesCount(postId, 1, env);
+  if (result === 'exists') {
+    return jsonResponse({ success: true, liked: true, message: 'Already liked' }, 200, env, request);
+  }
 
   return jsonResponse({ success: true, liked: true }, 201, env, request);
 }
 
 async function handleUnlikePost(userId: string, postId: string, request: Request, env: Env): Promise<Response> {
-  // Check if post exists
-  const post = await getPostById(postId, env);
-  if (!post) {
-    return errorResponse('Post not found', 404, env, request);
-  }
+  const deleted = await deleteLikeFromSupabase(userId, postId, env);
 
-  // Check if like exists
-  const existingLike = await getLikeByUserAndPost(userId, postId, env);
-  if (!existingLike) {
-    return jsonResponse({ success: true, liked: false, message: 'Not liked' }, 200, env, request);
-  }
-
-  // Delete like
-  const success = await deleteLikeFromSupabase(userId, postId, env);
-  if (!success) {
+  if (deleted === null) {
     return errorResponse('Failed to unlike post', 500, env, request);
   }
 
-  // Update likes count
-  await updatePostLikesCount(postId, -1, env);
+  if (!deleted) {
+    return jsonResponse({ success: true, liked: false, message: 'Not liked' }, 200, env, request);
+  }
 
   return jsonResponse({ success: true, liked: false }, 200, env, request);
 }
@@ -1347,9 +1494,15 @@ async function handleGetComments(postId: string, request: Request, env: Env): Pr
     parseInt(url.searchParams.get('limit') || String(DEFAULT_COMMENTS_LIMIT), 10),
     MAX_COMMENTS_LIMIT
   );
+  // offset paging is deprecated in favour of cursor; a cursor takes precedence
   const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+  const cursorParam = url.searchParams.get('cursor');
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+  if (cursorParam && !cursor) {
+    return errorResponse('Invalid cursor', 400, env, request);
+  }
 
-  const result = await getCommentsFromSupabase(postId, env, limit, offset);
+  const result = await getCommentsFromSupabase(postId, env, limit, offset, cursor);
   
   if (!result) {
     return errorResponse('Failed to fetch comments', 500, env, request);
@@ -1361,6 +1514,7 @@ async function handleGetComments(postId: string, request: Request, env: Env): Pr
     total: result.total,
     limit,
     offset,
+    next_cursor: result.nextCursor,
   }, 200, env, request);
 }
 
@@ -1399,9 +1553,6 @@ async function handleCreateComment(userId: string, postId: string, request: Requ
     return errorResponse('Failed to create comment', 500, env, request);
   }
 
-  // Update comments count
-  await updatePostCommentsCount(postId, 1, env);
-
   return jsonResponse({ success: true, comment }, 201, env, request);
 }
 
@@ -1417,22 +1568,180 @@ async function handleDeleteComment(userId: string, commentId: string, request: R
     return errorResponse('Access denied', 403, env, request);
   }
 
-  const postId = comment.post_id;
-
   const success = await deleteCommentFromSupabase(commentId, env);
   if (!success) {
     return errorResponse('Failed to delete comment', 500, env, request);
   }
 
-  // Update comments count
-  await updatePostCommentsCount(postId, -1, env);
+  return jsonResponse({ success: true }, 200, env, request);
+}
+
+// ========== DEVELOPER APPS API HANDLERS ==========
+// Self-service OAuth clients, scoped to created_by = userId
+const MAX_DEVELOPER_APPS = 20;
+
+// Never expose secret or registration token hashes
+function toDeveloperApp(client: OAuthClient) {
+  return {
+    client_id: client.client_id,
+    ...toClientMetadata(client),
+    is_active: client.is_active,
+    created_at: client.created_at,
+  };
+}
+
+async function handleGetDeveloperApps(userId: string, request: Request, env: Env): Promise<Response> {
+  const clients = await getClientsCreatedBy(userId, env);
+  if (!clients) {
+    return errorResponse('Failed to fetch apps', 500, env, request);
+  }
 
+  return jsonResponse({ success: true, apps: clients.map(toDeveloperApp) }, 200, env, request);
+}
+
+async function handleCreateDeveloperApp(userId: string, request: Request, env: Env): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400, env, request);
+  }
+
+  if (!body || typeof body !== 'object') {
+    return errorResponse('Invalid app data', 400, env, request);
+  }
+
+  const validation = validateClientMetadata(body as Record<string, unknown>);
+  if (!validation.valid) {
+    return errorResponse(validation.description, 400, env, request);
+  }
+
+  const existing = await getClientsCreatedBy(userId, env);
+  if (!existing) {
+    return errorResponse('Failed to fetch apps', 500, env, request);
+  }
+  if (existing.length >= MAX_DEVELOPER_APPS) {
+    return errorResponse(`You can create at most ${MAX_DEVELOPER_APPS} apps`, 400, env, request);
+  }
+
+  const created = await createClient(validation.metadata, userId, env);
+  if (!created) {
+    return errorResponse('Failed to create app', 500, env, request);
+  }
+
+  // The plaintext secret is only ever returned here and on rotation
+  return jsonResponse(
+    { success: true, app: toDeveloperApp(created.client), client_secret: created.clientSecret },
+    201,
+    env,
+    request
+  );
+}
+
+async function handleUpdateDeveloperApp(
+  userId: string,
+  clientId: string,
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const client = await getClientCreatedBy(clientId, userId, env);
+  if (!client) {
+    return errorResponse('App not found', 404, env, request);
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400, env, request);
+  }
+
+  if (!body || typeof body !== 'object') {
+    return errorResponse('Invalid app data', 400, env, request);
+  }
+
+  // Partial update: unspecified metadata keeps its current value
+  const { is_active: isActive, ...changes } = body;
+  let updated = client;
+  let clientSecret: string | null = null;
+
+  if (Object.keys(changes).length > 0) {
+    const validation = validateClientMetadata({ ...toClientMetadata(client), ...changes });
+    if (!validation.valid) {
+      return errorResponse(validation.description, 400, env, request);
+    }
+
+    const result = await updateClient(client, validation.metadata, env);
+    if (!result) {
+      return errorResponse('Failed to update app', 500, env, request);
+    }
+    updated = result.client;
+    clientSecret = result.clientSecret;
+  }
+
+  if (typeof isActive === 'boolean' && isActive !== updated.is_active) {
+    const result = await setClientActive(clientId, isActive, env);
+    if (!result) {
+      return errorResponse('Failed to update app', 500, env, request);
+    }
+    updated = result;
+  }
+
+  return jsonResponse({ success: true, app: toDeveloperApp(updated), client_secret: clientSecret }, 200, env, request);
+}
+
+async function handleRotateDeveloperAppSecret(
+  userId: string,
+  clientId: string,
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const client = await getClientCreatedBy(clientId, userId, env);
+  if (!client) {
+    return errorResponse('App not found', 404, env, request);
+  }
+
+  if (!client.is_confidential) {
+    return errorResponse('Public clients have no secret', 400, env, request);
+  }
+
+  const clientSecret = await rotateClientSecret(clientId, env);
+  if (!clientSecret) {
+    return errorResponse('Failed to rotate secret', 500, env, request);
+  }
+
+  return jsonResponse({ success: true, client_secret: clientSecret }, 200, env, request);
+}
+
+// ========== CONNECTED APPS API HANDLERS ==========
+async function handleGetConnectedApps(userId: string, request: Request, env: Env): Promise<Response> {
+  const apps = await getConnectedApps(userId, env);
+  if (!apps) {
+    return errorResponse('Failed to fetch connected apps', 500, env, request);
+  }
+
+  return jsonResponse({ success: true, apps }, 200, env, request);
+}
+
+async function handleRevokeConnectedApp(
+  userId: string,
+  clientId: string,
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response> {
+  const queuedLogouts = await revokeConnectedApp(userId, clientId, env);
+  if (!queuedLogouts) {
+    return errorResponse('Failed to remove access', 500, env, request);
+  }
+
+  ctx.waitUntil(deliverQueuedLogouts(queuedLogouts, env));
   return jsonResponse({ success: true }, 200, env, request);
 }
 
 // ========== MAIN ROUTER ==========
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     const path = url.pathname;
     const method = request.method;
@@ -1460,16 +1769,92 @@ export default {
     }
 
     if (path === '/oauth/token' && method === 'POST') {
-      return handleToken(request, env);
+      const { response, queuedLogouts } = await handleToken(request, env);
+      ctx.waitUntil(deliverQueuedLogouts(queuedLogouts, env));
+      return response;
+    }
+
+    if (path === '/oauth/revoke' && method === 'POST') {
+      const { response, queuedLogouts } = await handleRevoke(request, env);
+      ctx.waitUntil(deliverQueuedLogouts(queuedLogouts, env));
+      return response;
+    }
+
+    if (path === '/oauth/introspect' && method === 'POST') {
+      return handleIntrospect(request, env);
     }
 
     if (path === '/oauth/userinfo' && method === 'GET') {
       return handleUserInfo(request, env);
     }
 
+    if (path === '/oauth/logout' && (method === 'GET' || method === 'POST')) {
+      const { response, queuedLogouts } = await handleEndSession(request, env);
+      ctx.waitUntil(deliverQueuedLogouts(queuedLogouts, env));
+      return response;
+    }
+
+    // Sign-out from FUN Profile ends every app session (requires auth)
+    if (path === '/oauth/sessions/logout' && method === 'POST') {
+      const response = await withAuth(request, env, async (userId, req, e) => {
+        const result = await handleEndAllSessions(userId, req, e);
+        ctx.waitUntil(deliverQueuedLogouts(result.queuedLogouts, e));
+        return result.response;
+      });
+      return withCorsHeaders(response, env, request);
+    }
+
+    // Session/consent check from frontend consent page (auth optional, for prompt=none)
+    if (path === '/oauth/authorize/session' && method === 'POST') {
+      return withCorsHeaders(await handleAuthorizeSession(await getUserSession(request, env), request, env), env, request);
+    }
+
     // Callback from frontend consent page (requires auth)
     if (path === '/oauth/authorize/callback' && method === 'POST') {
-      return withAuth(request, env, handleAuthorizeCallback);
+      const session = await getUserSession(request, env);
+      if (!session) {
+        return errorResponse('Invalid or expired token', 401, env, request);
+      }
+      return withCorsHeaders(await handleAuthorizeCallback(session, request, env), env, request);
+    }
+
+    // Device authorization grant (RFC 8628): the device starts here, then polls /oauth/token
+    if (path === '/oauth/device_authorization' && method === 'POST') {
+      return handleDeviceAuthorization(request, env);
+    }
+
+    // User code lookup and decision from frontend /device page (requires auth)
+    if ((path === '/oauth/device/session' || path === '/oauth/device/callback') && method === 'POST') {
+      const session = await getUserSession(request, env);
+      if (!session) {
+        return errorResponse('Invalid or expired token', 401, env, request);
+      }
+      const handler = path === '/oauth/device/session' ? handleDeviceSession : handleDeviceCallback;
+      return withCorsHeaders(await handler(session, request, env), env, request);
+    }
+
+    // Dynamic client registration (admin JWT or initial access token)
+    if (path === '/oauth/register' && method === 'POST') {
+      return handleRegisterClient(await getUserSession(request, env), request, env);
+    }
+
+    // Client configuration (registration access token)
+    const registeredClientMatch = path.match(/^\/oauth\/register\/([A-Za-z0-9._~-]+)$/);
+    if (registeredClientMatch && (method === 'GET' || method === 'PUT' || method === 'DELETE')) {
+      return handleClientConfiguration(registeredClientMatch[1], request, env);
+    }
+
+    // Signing key rotation (requires admin role)
+    if (path === '/oauth/admin/keys' && method === 'GET') {
+      return withAuth(request, env, handleListSigningKeys);
+    }
+
+    const promoteKeyMatch = path.match(/^\/oauth\/admin\/keys\/([A-Za-z0-9._-]+)\/promote$/);
+    if (promoteKeyMatch && method === 'POST') {
+      const kid = promoteKeyMatch[1];
+      return withAuth(request, env, (userId, req, e) =>
+        handlePromoteSigningKey(userId, kid, req, e)
+      );
     }
 
     // ===== PUBLIC ROUTES =====
@@ -1478,6 +1863,48 @@ export default {
     }
 
     // ===== PROTECTED ROUTES =====
+    // GET/POST /api/developer/apps - Protected: list/create my OAuth apps
+    if (path === '/api/developer/apps') {
+      if (method === 'GET') {
+        return withAuth(request, env, handleGetDeveloperApps);
+      }
+      if (method === 'POST') {
+        return withAuth(request, env, handleCreateDeveloperApp);
+      }
+    }
+
+    // PATCH /api/developer/apps/:clientId - Protected: update or (de)activate my app
+    const developerAppMatch = path.match(/^\/api\/developer\/apps\/([A-Za-z0-9._~-]+)$/);
+    if (developerAppMatch && method === 'PATCH') {
+      const clientId = developerAppMatch[1];
+      return withAuth(request, env, (userId, req, e) =>
+        handleUpdateDeveloperApp(userId, clientId, req, e)
+      );
+    }
+
+    // POST /api/developer/apps/:clientId/secret - Protected: rotate my app's client secret
+    const developerSecretMatch = path.match(/^\/api\/developer\/apps\/([A-Za-z0-9._~-]+)\/secret$/);
+    if (developerSecretMatch && method === 'POST') {
+      const clientId = developerSecretMatch[1];
+      return withAuth(request, env, (userId, req, e) =>
+        handleRotateDeveloperAppSecret(userId, clientId, req, e)
+      );
+    }
+
+    // GET /api/connected-apps - Protected: apps I have granted access to
+    if (path === '/api/connected-apps' && method === 'GET') {
+      return withAuth(request, env, handleGetConnectedApps);
+    }
+
+    // DELETE /api/connected-apps/:clientId - Protected: revoke consent and tokens for an app
+    const connectedAppMatch = path.match(/^\/api\/connected-apps\/([A-Za-z0-9._~-]+)$/);
+    if (connectedAppMatch && method === 'DELETE') {
+      const clientId = connectedAppMatch[1];
+      return withAuth(request, env, (userId, req, e) =>
+        handleRevokeConnectedApp(userId, clientId, req, e, ctx)
+      );
+    }
+
     if (path === '/api/profile/me') {
       if (method === 'GET') {
         return withAuth(request, env, handleGetProfile);
@@ -1487,10 +1914,64 @@ export default {
       }
     }
 
+    // GET /api/profiles/:id - Public: anyone's profile with post count
+    const publicProfileMatch = path.match(/^\/api\/profiles\/([a-f0-9-]+)$/);
+    if (publicProfileMatch && method === 'GET') {
+      return handleGetPublicProfile(publicProfileMatch[1], request, env);
+    }
+
+    // GET /api/profiles/:id/posts - Public: a user's posts, newest first
+    const profilePostsMatch = path.match(/^\/api\/profiles\/([a-f0-9-]+)\/posts$/);
+    if (profilePostsMatch && method === 'GET') {
+      return handleGetProfilePosts(profilePostsMatch[1], request, env);
+    }
+
     if (path === '/api/media/presign' && method === 'POST') {
       return withAuth(request, env, handleMediaPresign);
     }
 
+    // ===== SIGN-IN WITH ETHEREUM ROUTES =====
+    // GET /api/siwe/nonce - Public: nonce for an EIP-4361 message
+    if (path === '/api/siwe/nonce' && method === 'GET') {
+      return handleGetSiweNonce(request, env);
+    }
+
+    // POST /api/siwe/login - Public: sign in (or sign up) with a wallet signature
+    if (path === '/api/siwe/login' && method === 'POST') {
+      return handleSiweLogin(request, env);
+    }
+
+    // POST/DELETE /api/siwe/link - Protected: link a verified wallet to my profile, or unlink it
+    if (path === '/api/siwe/link') {
+      if (method === 'POST') {
+        return withAuth(request, env, handleLinkWallet);
+      }
+      if (method === 'DELETE') {
+        return withAuth(request, env, handleUnlinkWallet);
+      }
+    }
+
+    // ===== CAMLY COIN ROUTES =====
+    // GET /api/camly/balance - Protected: my CAMLY balance
+    if (path === '/api/camly/balance' && method === 'GET') {
+      return withAuth(request, env, handleGetCamlyBalance);
+    }
+
+    // GET /api/camly/transactions - Protected: my CAMLY history (paginated)
+    if (path === '/api/camly/transactions' && method === 'GET') {
+      return withAuth(request, env, handleGetCamlyTransactions);
+    }
+
+    // GET/POST /api/camly/check-in - Protected: daily check-in status, or check in for today
+    if (path === '/api/camly/check-in') {
+      if (method === 'GET') {
+        return withAuth(request, env, handleGetCheckInStatus);
+      }
+      if (method === 'POST') {
+        return withAuth(request, env, handleCheckIn);
+      }
+    }
+
     // ===== VIDEO UPLOAD ROUTES (R2) =====
     // POST /api/video/presign - Protected: initiate video upload
     if (path === '/api/video/presign' && method === 'POST') {
@@ -1528,10 +2009,15 @@ export default {
       return withAuth(request, env, handleCreatePost);
     }
 
+    // GET /api/posts/:id - Public: single post (permalink)
     // PATCH/DELETE /api/posts/:id - Protected: update/delete post
     const postMatch = path.match(/^\/api\/posts\/([a-f0-9-]+)$/);
     if (postMatch) {
       const postId = postMatch[1];
+
+      if (method === 'GET') {
+        return handleGetPost(postId, request, env);
+      }
       
       if (method === 'PATCH') {
         return withAuth(request, env, (userId, req, e) => 
@@ -1574,6 +2060,15 @@ export default {
       );
     }
 
+    // POST /api/posts/:id/tip - Protected: tip the post's author
+    const postTipMatch = path.match(/^\/api\/posts\/([a-f0-9-]+)\/tip$/);
+    if (postTipMatch && method === 'POST') {
+      const postId = postTipMatch[1];
+      return withAuth(request, env, (userId, req, e) =>
+        handleTip(userId, { post_id: postId }, req, e)
+      );
+    }
+
     // ===== COMMENTS ROUTES =====
     // GET/POST /api/posts/:id/comments
     const commentsMatch = path.match(/^\/api\/posts\/([a-f0-9-]+)\/comments$/);
@@ -1601,6 +2096,15 @@ export default {
       );
     }
 
+    // POST /api/comments/:id/tip - Protected: tip the comment's author
+    const commentTipMatch = path.match(/^\/api\/comments\/([a-f0-9-]+)\/tip$/);
+    if (commentTipMatch && method === 'POST') {
+      const commentId = commentTipMatch[1];
+      return withAuth(request, env, (userId, req, e) =>
+        handleTip(userId, { comment_id: commentId }, req, e)
+      );
+    }
+
     // ===== MESSAGING ROUTES =====
     // GET /api/conversations - Protected: list conversations
     if (path === '/api/conversations' && method === 'GET') {
@@ -1660,4 +2164,18 @@ export default {
     // ===== 404 =====
     return errorResponse('Not Found', 404, env, request);
   },
+
+  // Cron triggers: retry back-channel logout deliveries that failed or were never sent,
+  // and once a day recompute post counters that drifted
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    if (controller.cron === REPAIR_COUNTERS_CRON) {
+      ctx.waitUntil(repairPostCounters(env).then((repaired) => {
+        // The triggers should keep counts exact, so any repair is worth a look
+        if (repaired) console.warn('Repaired drifted post counters:', repaired);
+      }));
+      return;
+    }
+
+    ctx.waitUntil(deliverPendingLogouts(env));
+  },
 };
@@ -20,6 +20,8 @@ import {
   deleteMessage,
 } from './messages';
 
+import { decodeCursor } from '../utils/cursor';
+
 interface Env {
   SUPABASE_URL: string;
   SUPABASE_SERVICE_ROLE_KEY: string;
@@ -157,9 +159,15 @@ export async function handleGetMessages(
 
   const url = new URL(request.url);
   const limit = Math.min(parseInt(url.searchParams.get('limit') || '50', 10), 100);
+  // `before` is deprecated in favour of cursor; a cursor takes precedence
   const before = url.searchParams.get('before') || undefined;
+  const cursorParam = url.searchParams.get('cursor');
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+  if (cursorParam && !cursor) {
+    return errorResponse('Invalid cursor', 400, env, request);
+  }
 
-  const result = await getMessagesForConversation(conversationId, env, limit, before);
+  const result = await getMessagesForConversation(conversationId, env, limit, before, cursor);
   
   if (!result) {
     return errorResponse('Failed to fetch messages', 500, env, request);
@@ -169,6 +177,7 @@ export async function handleGetMessages(
     messages: result.messages,
     total: result.total,
     limit,
+    next_cursor: result.nextCursor,
   }, 200, env, request);
 }
 
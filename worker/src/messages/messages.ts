@@ -9,6 +9,7 @@ import type {
   DEFAULT_MESSAGES_LIMIT,
   MAX_MESSAGES_LIMIT,
 } from './types';
+import { cursorFilter, paginate, Cursor } from '../utils/cursor';
 
 interface Env {
   SUPABASE_URL: string;
@@ -85,18 +86,22 @@ export function validateEditMessage(body: unknown): { content: string } | null {
 // ========== SUPABASE HELPERS ==========
 
 /**
- * Get messages for a conversation
+ * Get messages for a conversation, newest page first
+ * The cursor walks back in time; `before` (a timestamp) is the deprecated equivalent.
  */
 export async function getMessagesForConversation(
   conversationId: string,
   env: Env,
   limit: number = 50,
-  before?: string
-): Promise<{ messages: MessageData[]; total: number } | null> {
-  let url = `${env.SUPABASE_URL}/rest/v1/messages?conversation_id=eq.${conversationId}&is_deleted=eq.false&select=*,sender:sender_id(id,display_name,avatar_url)&order=created_at.desc&limit=${limit}`;
+  before?: string,
+  cursor: Cursor | null = null
+): Promise<{ messages: MessageData[]; total: number; nextCursor: string | null } | null> {
+  let url = `${env.SUPABASE_URL}/rest/v1/messages?conversation_id=eq.${conversationId}&is_deleted=eq.false&select=*,sender:sender_id(id,display_name,avatar_url)&order=created_at.desc,id.desc&limit=${limit + 1}`;
   
-  if (before) {
-    url += `&created_at=lt.${before}`;
+  if (cursor) {
+    url += `&${cursorFilter(cursor, 'desc')}`;
+  } else if (before) {
+    url += `&created_at=lt.${encodeURIComponent(before)}`;
   }
 
   const res = await fetch(url, {
@@ -112,13 +117,14 @@ export async function getMessagesForConversation(
     return null;
   }
 
-  const messages = await res.json() as MessageData[];
+  const rows = await res.json() as MessageData[];
   const total = parseInt(res.headers.get('content-range')?.split('/')[1] || '0', 10);
+  const { items: messages, nextCursor } = paginate(rows, limit);
 
   // Reverse to show oldest first
   messages.reverse();
 
-  return { messages, total };
+  return { messages, total, nextCursor };
 }
 
 /**
@@ -0,0 +1,130 @@
+/**
+ * OAuth Admin Endpoints
+ * /oauth/admin/keys - Inspect and rotate token signing keys
+ */
+
+import { OAuthEnv } from './types';
+import { getSigningKeys, promoteSigningKey } from './keys';
+import { JWKS_CACHE_LIFETIME_SECONDS } from './jwks';
+import { logSecurityEvent } from './security-events';
+
+// ========== Database Helpers ==========
+
+export async function isAdmin(userId: string, env: OAuthEnv): Promise<boolean> {
+  const url = `${env.SUPABASE_URL}/rest/v1/rpc/has_role`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ _user_id: userId, _role: 'admin' }),
+  });
+
+  if (!response.ok) return false;
+
+  return (await response.json()) === true;
+}
+
+// ========== Response Helpers ==========
+
+function jsonError(error: string, description: string, status: number): Response {
+  return new Response(
+    JSON.stringify({ error, error_description: description }),
+    {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+async function listKeys(env: OAuthEnv): Promise<Array<{ kid: string; status: string; can_sign: boolean }>> {
+  const keys = await getSigningKeys(env);
+  return keys.map((key) => ({ kid: key.kid, status: key.status, can_sign: key.privateKey !== null }));
+}
+
+// ========== Handlers ==========
+
+/**
+ * Handle GET /oauth/admin/keys
+ */
+export async function handleListSigningKeys(
+  userId: string,
+  request: Request,
+  env: OAuthEnv
+): Promise<Response> {
+  if (!(await isAdmin(userId, env))) {
+    return jsonError('access_denied', 'Admin role required', 403);
+  }
+
+  return new Response(
+    JSON.stringify({ keys: await listKeys(env) }),
+    {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    }
+  );
+}
+
+/**
+ * Handle POST /oauth/admin/keys/:kid/promote
+ * Makes the key current; the previous current key moves to retiring
+ * Refused until the key has been in the JWKS longer than clients may cache it
+ */
+export async function handlePromoteSigningKey(
+  userId: string,
+  kid: string,
+  request: Request,
+  env: OAuthEnv
+): Promise<Response> {
+  if (!(await isAdmin(userId, env))) {
+    return jsonError('access_denied', 'Admin role required', 403);
+  }
+
+  const keys = await getSigningKeys(env);
+  const key = keys.find((k) => k.kid === kid);
+
+  if (!key) {
+    return jsonError('invalid_request', `Key ${kid} is not in the configured key set`, 404);
+  }
+  if (!key.privateKey) {
+    return jsonError('invalid_request', `Key ${kid} has no private key and cannot sign`, 400);
+  }
+
+  const result = await promoteSigningKey(kid, JWKS_CACHE_LIFETIME_SECONDS, env);
+  if ('error' in result) {
+    switch (result.error) {
+      case 'not_published':
+        return jsonError('invalid_request', `Key ${kid} has not been published in the JWKS yet`, 409);
+      case 'published_too_recently':
+        return jsonError(
+          'invalid_request',
+          `Key ${kid} must stay in the JWKS until clients have refreshed it; promote after ${result.promotable_at}`,
+          409
+        );
+      default:
+        return jsonError('server_error', 'Failed to promote signing key', 500);
+    }
+  }
+
+  await logSecurityEvent(
+    {
+      event_type: 'signing_key_promoted',
+      user_id: userId,
+      client_id: null,
+      details: { kid },
+    },
+    request,
+    env
+  );
+
+  return new Response(
+    JSON.stringify({ keys: await listKeys(env) }),
+    {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    }
+  );
+}
@@ -1,6 +1,7 @@
 /**
  * OAuth 2.0 Authorization Endpoint
  * /oauth/authorize - Initiates the authorization code flow
+ * /oauth/authorize/session - Checks stored consent for a signed-in user
  * /oauth/authorize/callback - Receives consent from frontend
  */
 
@@ -8,13 +9,17 @@ import {
   AuthorizeRequest, 
   OAuthClient, 
   AuthorizationCode,
+  OAuthConsent,
   OAuthEnv,
   TOKEN_EXPIRY,
   SUPPORTED_SCOPES,
-  SupportedScope
+  SupportedScope,
+  SUPPORTED_PROMPTS,
+  SupportedPrompt,
+  UserSession
 } from './types';
 import { isValidCodeChallenge } from '../utils/pkce';
-import { generateAuthorizationCode } from '../utils/crypto';
+import { generateAuthorizationCode, verifyIDTokenHint } from '../utils/crypto';
 
 // ========== Validation Helpers ==========
 
@@ -27,6 +32,10 @@ function validateAuthorizeRequest(url: URL): { valid: true; params: AuthorizeReq
   const codeChallenge = url.searchParams.get('code_challenge');
   const codeChallengeMethod = url.searchParams.get('code_challenge_method');
   const nonce = url.searchParams.get('nonce');
+  const prompt = url.searchParams.get('prompt');
+  const maxAge = url.searchParams.get('max_age');
+  const loginHint = url.searchParams.get('login_hint');
+  const idTokenHint = url.searchParams.get('id_token_hint');
 
   // Required parameters
   if (!responseType) {
@@ -73,17 +82,44 @@ function validateAuthorizeRequest(url: URL): { valid: true; params: AuthorizeReq
       code_challenge: codeChallenge,
       code_challenge_method: codeChallengeMethod || 'S256',
       nonce: nonce || undefined,
+      prompt: prompt || undefined,
+      max_age: maxAge || undefined,
+      login_hint: loginHint || undefined,
+      id_token_hint: idTokenHint || undefined,
     },
   };
 }
 
-function validateScopes(requestedScopes: string): string[] {
+export function validateScopes(requestedScopes: string): string[] {
   const scopes = requestedScopes.split(' ').filter(Boolean);
   return scopes.filter((s): s is SupportedScope => 
     SUPPORTED_SCOPES.includes(s as SupportedScope)
   );
 }
 
+/**
+ * Parse the space-separated OIDC prompt parameter
+ * Returns null for unknown values or when "none" is combined with anything else
+ */
+function parsePrompt(prompt: string | undefined): SupportedPrompt[] | null {
+  const values = (prompt || '').split(' ').filter(Boolean);
+
+  if (!values.every((v) => SUPPORTED_PROMPTS.includes(v as SupportedPrompt))) return null;
+  if (values.includes('none') && values.length > 1) return null;
+
+  return values as SupportedPrompt[];
+}
+
+/**
+ * Parse max_age (seconds); undefined when absent, null when invalid
+ */
+function parseMaxAge(maxAge: string | number | undefined): number | undefined | null {
+  if (maxAge === undefined || maxAge === '') return undefined;
+
+  const value = Number(maxAge);
+  return Number.isInteger(value) && value >= 0 ? value : null;
+}
+
 // ========== Database Helpers ==========
 
 async function getClient(clientId: string, env: OAuthEnv): Promise<OAuthClient | null> {
@@ -129,6 +165,7 @@ async function storeAuthorizationCode(
       code_challenge_method: code.code_challenge_method,
       state: code.state,
       nonce: code.nonce,
+      auth_time: code.auth_time,
       expires_at: code.expires_at,
       used: false,
     }),
@@ -213,6 +250,14 @@ export async function handleAuthorize(
     );
   }
 
+  // Validate OIDC authentication parameters
+  if (!parsePrompt(params.prompt)) {
+    return authorizationError(params.redirect_uri, 'invalid_request', 'Invalid prompt parameter', params.state);
+  }
+  if (parseMaxAge(params.max_age) === null) {
+    return authorizationError(params.redirect_uri, 'invalid_request', 'max_age must be a non-negative integer', params.state);
+  }
+
   // Build frontend consent URL
   const frontendUrl = env.FUNID_FRONTEND_URL || 'https://soul-spark-web3.lovable.app';
   const consentUrl = new URL('/oauth/consent', frontendUrl);
@@ -231,62 +276,174 @@ export async function handleAuthorize(
   if (params.nonce) {
     consentUrl.searchParams.set('nonce', params.nonce);
   }
+  for (const name of ['prompt', 'max_age', 'login_hint', 'id_token_hint'] as const) {
+    const value = params[name];
+    if (value) {
+      consentUrl.searchParams.set(name, value);
+    }
+  }
 
   // Redirect to frontend consent page
   return Response.redirect(consentUrl.toString(), 302);
 }
 
+// ========== Consent Helpers ==========
+
+interface ConsentRequestBody {
+  client_id: string;
+  redirect_uri: string;
+  scope: string;
+  state: string;
+  code_challenge: string;
+  code_challenge_method: string;
+  nonce?: string;
+  prompt?: string;
+  max_age?: string | number;
+  login_hint?: string;
+  id_token_hint?: string;
+  approved?: boolean;
+}
+
+type AuthenticationCheck =
+  | { ok: true; session: UserSession }
+  | { ok: false; error: 'login_required' | 'invalid_request'; reason: string };
+
+type ValidatedConsentRequest =
+  | { valid: true; body: ConsentRequestBody; scopes: string[]; client: OAuthClient }
+  | { valid: false; response: Response };
+
 /**
- * Handle POST /oauth/authorize/callback
- * Called by frontend after user approves consent
- * Generates authorization code and redirects to client
+ * Re-validate an authorization request relayed by the frontend
+ * The consent page only echoes query parameters, so nothing in it is trusted
  */
-export async function handleAuthorizeCallback(
-  userId: string,
-  request: Request,
-  env: OAuthEnv
-): Promise<Response> {
-  let body: {
-    client_id: string;
-    redirect_uri: string;
-    scope: string;
-    state: string;
-    code_challenge: string;
-    code_challenge_method: string;
-    nonce?: string;
-    approved: boolean;
-  };
-
+async function validateConsentRequest(request: Request, env: OAuthEnv): Promise<ValidatedConsentRequest> {
+  let body: ConsentRequestBody;
   try {
     body = await request.json();
   } catch {
-    return jsonError('invalid_request', 'Invalid JSON body', 400);
+    return { valid: false, response: jsonError('invalid_request', 'Invalid JSON body', 400) };
   }
 
-  // User denied consent
-  if (!body.approved) {
-    return new Response(
-      JSON.stringify({
-        redirect_uri: `${body.redirect_uri}?error=access_denied&error_description=User%20denied%20consent&state=${encodeURIComponent(body.state)}`,
-      }),
-      {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
-      }
-    );
+  if (!body.client_id || !body.redirect_uri || !body.state || !body.code_challenge) {
+    return { valid: false, response: jsonError('invalid_request', 'Missing required parameters', 400) };
   }
 
-  // Validate client again
   const client = await getClient(body.client_id, env);
   if (!client) {
-    return jsonError('invalid_client', 'Client not found', 400);
+    return { valid: false, response: jsonError('invalid_client', 'Client not found', 400) };
   }
 
   if (!client.redirect_uris.includes(body.redirect_uri)) {
-    return jsonError('invalid_request', 'Invalid redirect_uri', 400);
+    return { valid: false, response: jsonError('invalid_request', 'Invalid redirect_uri', 400) };
   }
 
-  // Generate authorization code
+  const scopes = validateScopes(body.scope || 'openid');
+  if (scopes.length === 0) {
+    return { valid: false, response: jsonError('invalid_scope', 'No valid scopes requested', 400) };
+  }
+
+  return { valid: true, body, scopes, client };
+}
+
+/**
+ * Decide whether the current sign-in satisfies the request's
+ * prompt=login, max_age and id_token_hint requirements
+ */
+async function checkAuthentication(
+  session: UserSession | null,
+  body: ConsentRequestBody,
+  prompts: SupportedPrompt[],
+  maxAge: number | undefined,
+  env: OAuthEnv
+): Promise<AuthenticationCheck> {
+  if (!session) {
+    return { ok: false, error: 'login_required', reason: 'User is not signed in' };
+  }
+
+  if (prompts.includes('login')) {
+    return { ok: false, error: 'login_required', reason: 'Client requested re-authentication' };
+  }
+
+  if (maxAge !== undefined && Math.floor(Date.now() / 1000) - session.auth_time > maxAge) {
+    return { ok: false, error: 'login_required', reason: 'Authentication is older than max_age' };
+  }
+
+  if (body.id_token_hint) {
+    const hint = await verifyIDTokenHint(body.id_token_hint, env);
+    if (!hint || hint.aud !== body.client_id) {
+      return { ok: false, error: 'invalid_request', reason: 'Invalid id_token_hint' };
+    }
+    if (hint.sub !== session.user_id) {
+      return { ok: false, error: 'login_required', reason: 'Signed in as a different user than id_token_hint' };
+    }
+  }
+
+  return { ok: true, session };
+}
+
+function errorRedirectUri(body: ConsentRequestBody, error: string, description: string): string {
+  const url = new URL(body.redirect_uri);
+  url.searchParams.set('error', error);
+  url.searchParams.set('error_description', description);
+  url.searchParams.set('state', body.state);
+  return url.toString();
+}
+
+export async function getConsent(userId: string, clientId: string, env: OAuthEnv): Promise<OAuthConsent | null> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_consents?user_id=eq.${encodeURIComponent(userId)}&client_id=eq.${encodeURIComponent(clientId)}&select=*`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) {
+    console.error('Failed to fetch consent:', response.status);
+    return null;
+  }
+
+  const consents = await response.json() as OAuthConsent[];
+  return consents[0] || null;
+}
+
+export async function saveConsent(userId: string, clientId: string, scopes: string[], env: OAuthEnv): Promise<boolean> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_consents?on_conflict=user_id,client_id`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      'Prefer': 'resolution=merge-duplicates',
+    },
+    body: JSON.stringify({
+      user_id: userId,
+      client_id: clientId,
+      scopes,
+      updated_at: new Date().toISOString(),
+    }),
+  });
+
+  if (!response.ok) {
+    console.error('Failed to save consent:', response.status);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Issue an authorization code and build the client redirect URL
+ */
+async function issueAuthorizationCode(
+  session: UserSession,
+  body: ConsentRequestBody,
+  scopes: string[],
+  env: OAuthEnv
+): Promise<string | null> {
   const code = generateAuthorizationCode();
   const expiresAt = new Date(Date.now() + TOKEN_EXPIRY.AUTHORIZATION_CODE * 1000).toISOString();
 
@@ -294,34 +451,144 @@ export async function handleAuthorizeCallback(
     id: crypto.randomUUID(),
     code,
     client_id: body.client_id,
-    user_id: userId,
+    user_id: session.user_id,
     redirect_uri: body.redirect_uri,
-    scope: body.scope,
+    scope: scopes.join(' '),
     code_challenge: body.code_challenge,
-    code_challenge_method: body.code_challenge_method,
+    code_challenge_method: body.code_challenge_method || 'S256',
     state: body.state,
     nonce: body.nonce || null,
+    auth_time: new Date(session.auth_time * 1000).toISOString(),
     expires_at: expiresAt,
     used: false,
     created_at: new Date().toISOString(),
   };
 
-  // Store code in database
   const stored = await storeAuthorizationCode(authCode, env);
-  if (!stored) {
-    return jsonError('server_error', 'Failed to generate authorization code', 500);
-  }
+  if (!stored) return null;
 
-  // Return redirect URL for frontend to navigate
   const redirectUrl = new URL(body.redirect_uri);
   redirectUrl.searchParams.set('code', code);
   redirectUrl.searchParams.set('state', body.state);
 
-  return new Response(
-    JSON.stringify({ redirect_uri: redirectUrl.toString() }),
-    {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
+  return redirectUrl.toString();
+}
+
+function sessionResponse(body: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Handle POST /oauth/authorize/session
+ * Called by the consent page, with or without a signed-in user.
+ * Applies prompt/max_age/id_token_hint, issues a code right away when stored
+ * consent already covers the request, otherwise reports what the user must do
+ * and which registered client is asking.
+ * With prompt=none every outcome is a redirect back to the client.
+ */
+export async function handleAuthorizeSession(
+  session: UserSession | null,
+  request: Request,
+  env: OAuthEnv
+): Promise<Response> {
+  const validation = await validateConsentRequest(request, env);
+  if (!validation.valid) return validation.response;
+
+  const { body, scopes, client } = validation;
+
+  const prompts = parsePrompt(body.prompt);
+  const maxAge = parseMaxAge(body.max_age);
+  if (!prompts || maxAge === null) {
+    return sessionResponse({
+      consent_required: false,
+      redirect_uri: errorRedirectUri(body, 'invalid_request', 'Invalid prompt or max_age parameter'),
+    });
+  }
+
+  const silent = prompts.includes('none');
+
+  const auth = await checkAuthentication(session, body, prompts, maxAge, env);
+  if (!auth.ok) {
+    if (silent || auth.error !== 'login_required') {
+      return sessionResponse({
+        consent_required: false,
+        redirect_uri: errorRedirectUri(body, auth.error, auth.reason),
+      });
     }
-  );
+    return sessionResponse({ consent_required: false, login_required: true, reason: auth.reason });
+  }
+
+  // prompt=consent and prompt=select_account always show the consent screen
+  const forceConsent = prompts.includes('consent') || prompts.includes('select_account');
+  const consent = forceConsent ? null : await getConsent(auth.session.user_id, body.client_id, env);
+  const grantedScopes = scopes.filter((s) => consent?.scopes.includes(s));
+  const newScopes = scopes.filter((s) => !grantedScopes.includes(s));
+
+  if (newScopes.length > 0) {
+    if (silent) {
+      return sessionResponse({
+        consent_required: false,
+        redirect_uri: errorRedirectUri(body, 'consent_required', 'User consent is required'),
+      });
+    }
+    // The consent screen shows the registered name and logo, never ones taken from the URL
+    return sessionResponse({
+      consent_required: true,
+      client_name: client.client_name,
+      logo_uri: client.logo_uri,
+      granted_scopes: grantedScopes,
+      new_scopes: newScopes,
+    });
+  }
+
+  const redirectUri = await issueAuthorizationCode(auth.session, body, scopes, env);
+  if (!redirectUri) {
+    return jsonError('server_error', 'Failed to generate authorization code', 500);
+  }
+
+  return sessionResponse({ consent_required: false, redirect_uri: redirectUri });
+}
+
+/**
+ * Handle POST /oauth/authorize/callback
+ * Called by frontend after user approves consent
+ * Remembers the granted scopes, generates authorization code and redirects to client
+ */
+export async function handleAuthorizeCallback(
+  session: UserSession,
+  request: Request,
+  env: OAuthEnv
+): Promise<Response> {
+  const validation = await validateConsentRequest(request, env);
+  if (!validation.valid) return validation.response;
+
+  const { body, scopes } = validation;
+
+  // User denied consent
+  if (body.approved !== true) {
+    return sessionResponse({ redirect_uri: errorRedirectUri(body, 'access_denied', 'User denied consent') });
+  }
+
+  // max_age and id_token_hint still apply to the sign-in that approved consent
+  const auth = await checkAuthentication(session, body, [], parseMaxAge(body.max_age) ?? undefined, env);
+  if (!auth.ok) {
+    return jsonError(auth.error, auth.reason, 400);
+  }
+
+  // Remember consent; scopes granted earlier stay granted (incremental consent)
+  const consent = await getConsent(session.user_id, body.client_id, env);
+  const allScopes = Array.from(new Set([...(consent?.scopes || []), ...scopes]));
+  await saveConsent(session.user_id, body.client_id, allScopes, env);
+
+  // Generate authorization code
+  const redirectUri = await issueAuthorizationCode(session, body, scopes, env);
+  if (!redirectUri) {
+    return jsonError('server_error', 'Failed to generate authorization code', 500);
+  }
+
+  // Return redirect URL for frontend to navigate
+  return sessionResponse({ redirect_uri: redirectUri });
 }
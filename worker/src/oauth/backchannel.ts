@@ -0,0 +1,265 @@
+/**
+ * OIDC Back-Channel Logout 1.0
+ * Notifies relying parties when a user's session with them ends.
+ * Revocations queue deliveries; the request that queued them delivers
+ * them right away (ctx.waitUntil) and the cron trigger retries failures.
+ */
+
+import {
+  OAuthEnv,
+  OAuthClient,
+  RevokedSession,
+  BackchannelLogoutDelivery,
+  BACKCHANNEL_LOGOUT_EVENT,
+  LogoutQueueingResponse,
+} from './types';
+import { signLogoutToken } from '../utils/crypto';
+
+// ========== Retry Policy ==========
+
+const MAX_DELIVERY_ATTEMPTS = 6;
+const DELIVERY_TIMEOUT_MS = 5000;
+const DELIVERY_BATCH_SIZE = 50;
+
+// The cron leaves a fresh delivery to the request that queued it for this long
+const IMMEDIATE_DELIVERY_WINDOW_MS = 60 * 1000;
+
+// 1, 2, 4, 8, 16 minutes between attempts
+function nextAttemptAt(attempts: number): string {
+  return new Date(Date.now() + 2 ** (attempts - 1) * 60 * 1000).toISOString();
+}
+
+// ========== Database Helpers ==========
+
+async function getClientsWithBackchannelLogout(
+  clientIds: string[],
+  env: OAuthEnv
+): Promise<Set<string>> {
+  const list = clientIds.map((id) => `"${id.replace(/"/g, '')}"`).join(',');
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_clients?client_id=in.(${encodeURIComponent(list)})&backchannel_logout_uri=not.is.null&select=client_id`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) {
+    console.error('Failed to fetch back-channel logout clients:', response.status);
+    return new Set();
+  }
+
+  const clients = await response.json() as Array<Pick<OAuthClient, 'client_id'>>;
+  return new Set(clients.map((client) => client.client_id));
+}
+
+type PendingDelivery = BackchannelLogoutDelivery & {
+  oauth_clients: Pick<OAuthClient, 'backchannel_logout_uri'> | null;
+};
+
+/**
+ * Pending deliveries that are due, or the given ones regardless of when they are due
+ */
+async function getPendingDeliveries(env: OAuthEnv, ids?: string[]): Promise<PendingDelivery[]> {
+  let url = `${env.SUPABASE_URL}/rest/v1/oauth_backchannel_logout_deliveries?status=eq.pending&select=*,oauth_clients(backchannel_logout_uri)&order=next_attempt_at.asc&limit=${DELIVERY_BATCH_SIZE}`;
+  if (ids) {
+    url += `&id=in.(${ids.map(encodeURIComponent).join(',')})`;
+  } else {
+    url += `&next_attempt_at=lte.${encodeURIComponent(new Date().toISOString())}`;
+  }
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) {
+    console.error('Failed to fetch pending logout deliveries:', response.status);
+    return [];
+  }
+
+  return await response.json() as PendingDelivery[];
+}
+
+async function updateDelivery(
+  id: string,
+  changes: Partial<BackchannelLogoutDelivery>,
+  env: OAuthEnv
+): Promise<void> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_backchannel_logout_deliveries?id=eq.${encodeURIComponent(id)}`;
+
+  const response = await fetch(url, {
+    method: 'PATCH',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok) {
+    console.error('Failed to update logout delivery:', id, response.status);
+  }
+}
+
+// ========== Queueing ==========
+
+/**
+ * Queue a logout notification for each revoked session whose client
+ * registered a backchannel_logout_uri. Returns the ids of the newly
+ * queued deliveries, for the caller to hand to deliverQueuedLogouts.
+ * Never throws: revocation has already happened and must not fail
+ * because of notifications.
+ */
+export async function queueBackchannelLogout(
+  sessions: RevokedSession[],
+  env: OAuthEnv
+): Promise<string[]> {
+  if (sessions.length === 0) return [];
+
+  try {
+    const clientIds = Array.from(new Set(sessions.map((s) => s.client_id)));
+    const subscribed = await getClientsWithBackchannelLogout(clientIds, env);
+
+    const firstRetryAt = new Date(Date.now() + IMMEDIATE_DELIVERY_WINDOW_MS).toISOString();
+    const rows = new Map<string, Pick<BackchannelLogoutDelivery, 'client_id' | 'user_id' | 'sid' | 'next_attempt_at'>>();
+    for (const session of sessions) {
+      if (!subscribed.has(session.client_id)) continue;
+      rows.set(`${session.client_id}:${session.family_id}`, {
+        client_id: session.client_id,
+        user_id: session.user_id,
+        sid: session.family_id,
+        next_attempt_at: firstRetryAt,
+      });
+    }
+
+    if (rows.size === 0) return [];
+
+    const url = `${env.SUPABASE_URL}/rest/v1/oauth_backchannel_logout_deliveries?on_conflict=client_id,sid`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+        'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+        'Content-Type': 'application/json',
+        // A session is only logged out once; only new rows come back
+        'Prefer': 'resolution=ignore-duplicates,return=representation',
+      },
+      body: JSON.stringify(Array.from(rows.values())),
+    });
+
+    if (!response.ok) {
+      console.error('Failed to queue back-channel logout:', response.status);
+      return [];
+    }
+
+    const queued = await response.json() as Array<Pick<BackchannelLogoutDelivery, 'id'>>;
+    return queued.map((delivery) => delivery.id);
+  } catch (error) {
+    console.error('Failed to queue back-channel logout:', error);
+    return [];
+  }
+}
+
+/**
+ * Wrap a response from a path that queued nothing
+ */
+export function withoutQueuedLogouts(response: Response): LogoutQueueingResponse {
+  return { response, queuedLogouts: [] };
+}
+
+// ========== Delivery ==========
+
+async function deliver(delivery: PendingDelivery, env: OAuthEnv): Promise<void> {
+  const logoutUri = delivery.oauth_clients?.backchannel_logout_uri;
+  const attempts = delivery.attempts + 1;
+
+  if (!logoutUri) {
+    await updateDelivery(delivery.id, {
+      status: 'failed',
+      attempts,
+      last_error: 'Client no longer has a backchannel_logout_uri',
+    }, env);
+    return;
+  }
+
+  let failure: string;
+
+  try {
+    const logoutToken = await signLogoutToken(
+      {
+        sub: delivery.user_id,
+        aud: delivery.client_id,
+        sid: delivery.sid,
+        events: { [BACKCHANNEL_LOGOUT_EVENT]: {} },
+      },
+      env
+    );
+
+    const response = await fetch(logoutUri, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Cache-Control': 'no-store',
+      },
+      body: new URLSearchParams({ logout_token: logoutToken }).toString(),
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    if (response.ok) {
+      await updateDelivery(delivery.id, {
+        status: 'delivered',
+        attempts,
+        last_error: null,
+        delivered_at: new Date().toISOString(),
+      }, env);
+      return;
+    }
+
+    failure = `HTTP ${response.status}`;
+  } catch (error) {
+    failure = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+  if (exhausted) {
+    console.warn('Giving up on back-channel logout delivery:', delivery.client_id, failure);
+  }
+
+  await updateDelivery(delivery.id, {
+    status: exhausted ? 'failed' : 'pending',
+    attempts,
+    last_error: failure,
+    next_attempt_at: exhausted ? delivery.next_attempt_at : nextAttemptAt(attempts),
+  }, env);
+}
+
+/**
+ * Deliver every queued logout token that is due (cron)
+ * Safe to run concurrently: relying parties must treat logout as idempotent
+ */
+export async function deliverPendingLogouts(env: OAuthEnv): Promise<void> {
+  const deliveries = await getPendingDeliveries(env);
+
+  for (const delivery of deliveries) {
+    await deliver(delivery, env);
+  }
+}
+
+/**
+ * First attempt at deliveries a request just queued; failures are left to the cron
+ */
+export async function deliverQueuedLogouts(ids: string[], env: OAuthEnv): Promise<void> {
+  if (ids.length === 0) return;
+
+  const deliveries = await getPendingDeliveries(env, ids);
+
+  for (const delivery of deliveries) {
+    await deliver(delivery, env);
+  }
+}
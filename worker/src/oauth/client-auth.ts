@@ -0,0 +1,203 @@
+/**
+ * OAuth 2.0 Client Authentication
+ * Shared by endpoints that authenticate the calling client (token, revocation, introspection)
+ * Supports client_secret_basic, client_secret_post and "none" for public clients
+ */
+
+import { OAuthClient, OAuthEnv } from './types';
+import { verifyClientSecret } from '../utils/crypto';
+
+// ========== Types ==========
+
+export type ClientAuthMethod = 'client_secret_basic' | 'client_secret_post' | 'none';
+
+export type ClientAuthResult =
+  | { authenticated: true; client: OAuthClient; method: ClientAuthMethod }
+  | { authenticated: false; error: string; description: string; method?: ClientAuthMethod };
+
+interface ClientCredentials {
+  clientId: string;
+  clientSecret?: string;
+  method: ClientAuthMethod;
+}
+
+// ========== Database Helpers ==========
+
+async function getClient(clientId: string, env: OAuthEnv): Promise<OAuthClient | null> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_clients?client_id=eq.${encodeURIComponent(clientId)}&is_active=eq.true&select=*`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) return null;
+
+  const clients = await response.json() as OAuthClient[];
+  return clients[0] || null;
+}
+
+// ========== Request Parsing ==========
+
+/**
+ * Parse an OAuth request body (form-encoded per spec, JSON tolerated)
+ * Returns null for unsupported content types or malformed bodies
+ */
+export async function parseOAuthRequestBody(request: Request): Promise<Record<string, string> | null> {
+  const contentType = request.headers.get('Content-Type') || '';
+
+  try {
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+      const form = new URLSearchParams(await request.text());
+      return Object.fromEntries(form.entries());
+    }
+
+    if (contentType.includes('application/json')) {
+      const json = await request.json() as Record<string, unknown>;
+      const result: Record<string, string> = {};
+      for (const [key, value] of Object.entries(json)) {
+        if (typeof value === 'string') result[key] = value;
+      }
+      return result;
+    }
+  } catch {
+    return null;
+  }
+
+  return null;
+}
+
+// ========== Credential Extraction ==========
+
+/**
+ * Decode an "Authorization: Basic" header per RFC 6749 Section 2.3.1
+ * (client_id and client_secret are form-urlencoded before base64 encoding)
+ */
+function parseBasicCredentials(header: string): { clientId: string; clientSecret: string } | null {
+  if (!/^Basic /i.test(header)) return null;
+
+  let decoded: string;
+  try {
+    decoded = atob(header.slice(6).trim());
+  } catch {
+    return null;
+  }
+
+  const separator = decoded.indexOf(':');
+  if (separator === -1) return null;
+
+  try {
+    const formDecode = (value: string) => decodeURIComponent(value.replace(/\+/g, ' '));
+    return {
+      clientId: formDecode(decoded.slice(0, separator)),
+      clientSecret: formDecode(decoded.slice(separator + 1)),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function extractClientCredentials(
+  request: Request,
+  params: Record<string, string>
+): ClientCredentials | { error: string; description: string; method?: ClientAuthMethod } {
+  const authHeader = request.headers.get('Authorization');
+
+  if (authHeader && /^Basic /i.test(authHeader)) {
+    const basic = parseBasicCredentials(authHeader);
+    if (!basic || !basic.clientId) {
+      return { error: 'invalid_client', description: 'Malformed Basic authorization header', method: 'client_secret_basic' };
+    }
+
+    // RFC 6749 Section 2.3: clients MUST NOT use more than one authentication method
+    if (params.client_secret !== undefined) {
+      return { error: 'invalid_request', description: 'Multiple client authentication methods used', method: 'client_secret_basic' };
+    }
+
+    if (params.client_id && params.client_id !== basic.clientId) {
+      return { error: 'invalid_request', description: 'client_id does not match Authorization header', method: 'client_secret_basic' };
+    }
+
+    return { clientId: basic.clientId, clientSecret: basic.clientSecret, method: 'client_secret_basic' };
+  }
+
+  if (!params.client_id) {
+    return { error: 'invalid_client', description: 'Missing client authentication' };
+  }
+
+  if (params.client_secret !== undefined) {
+    return { clientId: params.client_id, clientSecret: params.client_secret, method: 'client_secret_post' };
+  }
+
+  return { clientId: params.client_id, method: 'none' };
+}
+
+// ========== Client Authentication ==========
+
+/**
+ * Authenticate the client making the request
+ * - Confidential clients: client_secret_basic or client_secret_post (never both)
+ * - Public clients: client_id only (auth method "none")
+ */
+export async function authenticateClient(
+  request: Request,
+  params: Record<string, string>,
+  env: OAuthEnv
+): Promise<ClientAuthResult> {
+  const credentials = extractClientCredentials(request, params);
+  if ('error' in credentials) {
+    return { authenticated: false, ...credentials };
+  }
+
+  const { clientId, clientSecret, method } = credentials;
+
+  const client = await getClient(clientId, env);
+  if (!client) {
+    return { authenticated: false, error: 'invalid_client', description: 'Client not found or inactive', method };
+  }
+
+  if (client.is_confidential) {
+    if (!clientSecret) {
+      return { authenticated: false, error: 'invalid_client', description: 'Missing client_secret for confidential client', method };
+    }
+
+    const secretValid = client.client_secret_hash !== null
+      && await verifyClientSecret(clientSecret, client.client_secret_hash);
+    if (!secretValid) {
+      return { authenticated: false, error: 'invalid_client', description: 'Invalid client credentials', method };
+    }
+  }
+
+  return { authenticated: true, client, method };
+}
+
+// ========== Error Response ==========
+
+/**
+ * Build the error response for a failed client authentication
+ * invalid_client is a 401 with a WWW-Authenticate challenge (RFC 6749 Section 5.2)
+ */
+export function clientAuthErrorResponse(
+  result: Extract<ClientAuthResult, { authenticated: false }>
+): Response {
+  const isInvalidClient = result.error === 'invalid_client';
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    'Pragma': 'no-cache',
+  };
+
+  if (isInvalidClient) {
+    headers['WWW-Authenticate'] = 'Basic realm="FUN-ID", charset="UTF-8"';
+  }
+
+  return new Response(
+    JSON.stringify({ error: result.error, error_description: result.description }),
+    {
+      status: isInvalidClient ? 401 : 400,
+      headers,
+    }
+  );
+}
@@ -0,0 +1,401 @@
+/**
+ * OAuth Client Management
+ * Metadata validation and storage shared by every way of creating a client
+ * (dynamic registration, developer apps)
+ */
+
+import {
+  OAuthClient,
+  OAuthEnv,
+  ClientMetadata,
+  TokenEndpointAuthMethod,
+  SUPPORTED_GRANT_TYPES,
+  SUPPORTED_SCOPES,
+  SupportedScope,
+} from './types';
+import {
+  generateClientSecret,
+  generateRegistrationAccessToken,
+  hashClientSecret,
+  hashToken,
+} from '../utils/crypto';
+
+// ========== Validation ==========
+
+const TOKEN_ENDPOINT_AUTH_METHODS: TokenEndpointAuthMethod[] = ['client_secret_basic', 'client_secret_post', 'none'];
+
+const DEFAULT_GRANT_TYPES = ['authorization_code'];
+const DEFAULT_SCOPE = 'openid profile';
+const MAX_CLIENT_NAME_LENGTH = 100;
+
+export type ClientMetadataValidation =
+  | { valid: true; metadata: ClientMetadata }
+  | { valid: false; error: 'invalid_redirect_uri' | 'invalid_client_metadata'; description: string };
+
+function isLoopbackHost(hostname: string): boolean {
+  return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]';
+}
+
+function parseUrl(value: unknown): URL | null {
+  if (typeof value !== 'string') return null;
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+// https anywhere, plain http only for local development
+function isValidWebUri(value: unknown): boolean {
+  const url = parseUrl(value);
+  if (!url) return false;
+  return url.protocol === 'https:' || (url.protocol === 'http:' && isLoopbackHost(url.hostname));
+}
+
+/**
+ * Redirect URIs: web URIs without fragment, or a reverse-domain private-use
+ * scheme for native apps (RFC 8252 Section 7.1), which rules out javascript: and data:
+ */
+function isValidRedirectUri(value: unknown): boolean {
+  const url = parseUrl(value);
+  if (!url || url.hash) return false;
+  if (isValidWebUri(value)) return true;
+  return /^[a-z][a-z0-9+-]*(\.[a-z0-9+-]+)+:$/.test(url.protocol);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function optionalUri(value: unknown): string | null | undefined {
+  if (value === undefined || value === null || value === '') return null;
+  return isValidWebUri(value) ? value as string : undefined;
+}
+
+/**
+ * Validate client metadata as sent to /oauth/register (RFC 7591 Section 2)
+ * Unknown fields are ignored; omitted fields get server defaults
+ */
+export function validateClientMetadata(input: Record<string, unknown>): ClientMetadataValidation {
+  const invalid = (description: string): ClientMetadataValidation =>
+    ({ valid: false, error: 'invalid_client_metadata', description });
+
+  const clientName = typeof input.client_name === 'string' ? input.client_name.trim() : '';
+  if (!clientName || clientName.length > MAX_CLIENT_NAME_LENGTH) {
+    return invalid(`client_name is required (max ${MAX_CLIENT_NAME_LENGTH} characters)`);
+  }
+
+  const authMethod = input.token_endpoint_auth_method ?? 'client_secret_basic';
+  if (!TOKEN_ENDPOINT_AUTH_METHODS.includes(authMethod as TokenEndpointAuthMethod)) {
+    return invalid(`token_endpoint_auth_method must be one of: ${TOKEN_ENDPOINT_AUTH_METHODS.join(', ')}`);
+  }
+
+  const grantTypes = input.grant_types ?? DEFAULT_GRANT_TYPES;
+  if (!isStringArray(grantTypes) || grantTypes.length === 0) {
+    return invalid('grant_types must be a non-empty array');
+  }
+  const unsupportedGrants = grantTypes.filter((g) => !(SUPPORTED_GRANT_TYPES as readonly string[]).includes(g));
+  if (unsupportedGrants.length > 0) {
+    return invalid(`Unsupported grant_types: ${unsupportedGrants.join(', ')}`);
+  }
+  if (grantTypes.includes('client_credentials') && authMethod === 'none') {
+    return invalid('client_credentials requires a confidential client');
+  }
+
+  const redirectUris = input.redirect_uris ?? [];
+  if (!isStringArray(redirectUris) || !redirectUris.every(isValidRedirectUri)) {
+    return { valid: false, error: 'invalid_redirect_uri', description: 'redirect_uris must be https, loopback http or private-use scheme URIs without fragment' };
+  }
+  if (grantTypes.includes('authorization_code') && redirectUris.length === 0) {
+    return { valid: false, error: 'invalid_redirect_uri', description: 'authorization_code clients need at least one redirect_uri' };
+  }
+
+  const postLogoutRedirectUris = input.post_logout_redirect_uris ?? [];
+  if (!isStringArray(postLogoutRedirectUris) || !postLogoutRedirectUris.every(isValidRedirectUri)) {
+    return { valid: false, error: 'invalid_redirect_uri', description: 'Invalid post_logout_redirect_uris' };
+  }
+
+  const scope = input.scope ?? DEFAULT_SCOPE;
+  if (typeof scope !== 'string') {
+    return invalid('scope must be a space-separated string');
+  }
+  const scopes = Array.from(new Set(scope.split(' ').filter(Boolean)));
+  const unsupportedScopes = scopes.filter((s) => !SUPPORTED_SCOPES.includes(s as SupportedScope));
+  if (scopes.length === 0 || unsupportedScopes.length > 0) {
+    return invalid(`Unsupported scope: ${unsupportedScopes.join(', ') || '(empty)'}`);
+  }
+
+  const logoUri = optionalUri(input.logo_uri);
+  const clientUri = optionalUri(input.client_uri);
+  const backchannelLogoutUri = optionalUri(input.backchannel_logout_uri);
+  if (logoUri === undefined || clientUri === undefined || backchannelLogoutUri === undefined) {
+    return invalid('logo_uri, client_uri and backchannel_logout_uri must be https URIs');
+  }
+
+  return {
+    valid: true,
+    metadata: {
+      client_name: clientName,
+      redirect_uris: Array.from(new Set(redirectUris)),
+      post_logout_redirect_uris: Array.from(new Set(postLogoutRedirectUris)),
+      backchannel_logout_uri: backchannelLogoutUri,
+      grant_types: Array.from(new Set(grantTypes)),
+      scope: scopes.join(' '),
+      token_endpoint_auth_method: authMethod as TokenEndpointAuthMethod,
+      logo_uri: logoUri,
+      client_uri: clientUri,
+    },
+  };
+}
+
+/**
+ * Describe a stored client in RFC 7591 metadata terms
+ */
+export function toClientMetadata(client: OAuthClient): ClientMetadata {
+  return {
+    client_name: client.client_name,
+    redirect_uris: client.redirect_uris,
+    post_logout_redirect_uris: client.post_logout_redirect_uris,
+    backchannel_logout_uri: client.backchannel_logout_uri,
+    grant_types: client.grant_types,
+    scope: client.scopes.join(' '),
+    token_endpoint_auth_method: client.token_endpoint_auth_method,
+    logo_uri: client.logo_uri,
+    client_uri: client.client_uri,
+  };
+}
+
+function toClientRow(metadata: ClientMetadata): Partial<OAuthClient> {
+  return {
+    client_name: metadata.client_name,
+    redirect_uris: metadata.redirect_uris,
+    post_logout_redirect_uris: metadata.post_logout_redirect_uris,
+    backchannel_logout_uri: metadata.backchannel_logout_uri,
+    grant_types: metadata.grant_types,
+    scopes: metadata.scope.split(' '),
+    is_confidential: metadata.token_endpoint_auth_method !== 'none',
+    token_endpoint_auth_method: metadata.token_endpoint_auth_method,
+    logo_uri: metadata.logo_uri,
+    client_uri: metadata.client_uri,
+  };
+}
+
+// ========== Database Helpers ==========
+
+export interface CreatedClient {
+  client: OAuthClient;
+  clientSecret: string | null; // Plaintext, only available right now
+  registrationAccessToken: string; // Plaintext, only available right now
+}
+
+/**
+ * Create a client; the secret and registration access token are only stored hashed
+ */
+export async function createClient(
+  metadata: ClientMetadata,
+  createdBy: string | null,
+  env: OAuthEnv
+): Promise<CreatedClient | null> {
+  const clientSecret = metadata.token_endpoint_auth_method === 'none' ? null : generateClientSecret();
+  const registrationAccessToken = generateRegistrationAccessToken();
+
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_clients`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      'Prefer': 'return=representation',
+    },
+    body: JSON.stringify({
+      ...toClientRow(metadata),
+      client_secret_hash: clientSecret ? await hashClientSecret(clientSecret) : null,
+      registration_access_token_hash: await hashToken(registrationAccessToken),
+      created_by: createdBy,
+    }),
+  });
+
+  if (!response.ok) {
+    console.error('Failed to create OAuth client:', response.status);
+    return null;
+  }
+
+  const clients = await response.json() as OAuthClient[];
+  return { client: clients[0], clientSecret, registrationAccessToken };
+}
+
+/**
+ * Replace a client's metadata
+ * A client that becomes confidential without a secret gets one, returned in plaintext
+ */
+export async function updateClient(
+  client: OAuthClient,
+  metadata: ClientMetadata,
+  env: OAuthEnv
+): Promise<{ client: OAuthClient; clientSecret: string | null } | null> {
+  const needsSecret = metadata.token_endpoint_auth_method !== 'none' && !client.client_secret_hash;
+  const clientSecret = needsSecret ? generateClientSecret() : null;
+
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_clients?client_id=eq.${encodeURIComponent(client.client_id)}`;
+
+  const response = await fetch(url, {
+    method: 'PATCH',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      'Prefer': 'return=representation',
+    },
+    body: JSON.stringify({
+      ...toClientRow(metadata),
+      ...(clientSecret ? { client_secret_hash: await hashClientSecret(clientSecret) } : {}),
+      updated_at: new Date().toISOString(),
+    }),
+  });
+
+  if (!response.ok) {
+    console.error('Failed to update OAuth client:', response.status);
+    return null;
+  }
+
+  const clients = await response.json() as OAuthClient[];
+  return clients[0] ? { client: clients[0], clientSecret } : null;
+}
+
+/**
+ * Delete a client; its codes, tokens and consents go with it (ON DELETE CASCADE)
+ */
+export async function deleteClient(clientId: string, env: OAuthEnv): Promise<boolean> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_clients?client_id=eq.${encodeURIComponent(clientId)}`;
+
+  const response = await fetch(url, {
+    method: 'DELETE',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  return response.ok;
+}
+
+/**
+ * Find the client a registration access token belongs to
+ */
+export async function getClientByRegistrationToken(
+  clientId: string,
+  registrationAccessToken: string,
+  env: OAuthEnv
+): Promise<OAuthClient | null> {
+  const tokenHash = await hashToken(registrationAccessToken);
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_clients?client_id=eq.${encodeURIComponent(clientId)}&registration_access_token_hash=eq.${encodeURIComponent(tokenHash)}&select=*`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) return null;
+
+  const clients = await response.json() as OAuthClient[];
+  return clients[0] || null;
+}
+
+// ========== Owner Helpers (developer apps) ==========
+
+export async function getClientsCreatedBy(userId: string, env: OAuthEnv): Promise<OAuthClient[] | null> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_clients?created_by=eq.${encodeURIComponent(userId)}&select=*&order=created_at.desc`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) return null;
+
+  return await response.json() as OAuthClient[];
+}
+
+/**
+ * Fetch a client only if it belongs to the user (inactive ones included)
+ */
+export async function getClientCreatedBy(
+  clientId: string,
+  userId: string,
+  env: OAuthEnv
+): Promise<OAuthClient | null> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_clients?client_id=eq.${encodeURIComponent(clientId)}&created_by=eq.${encodeURIComponent(userId)}&select=*`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) return null;
+
+  const clients = await response.json() as OAuthClient[];
+  return clients[0] || null;
+}
+
+/**
+ * Replace a confidential client's secret; the old one stops working immediately
+ * Returns the new plaintext secret
+ */
+export async function rotateClientSecret(clientId: string, env: OAuthEnv): Promise<string | null> {
+  const clientSecret = generateClientSecret();
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_clients?client_id=eq.${encodeURIComponent(clientId)}&is_confidential=eq.true`;
+
+  const response = await fetch(url, {
+    method: 'PATCH',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      'Prefer': 'return=representation',
+    },
+    body: JSON.stringify({
+      client_secret_hash: await hashClientSecret(clientSecret),
+      updated_at: new Date().toISOString(),
+    }),
+  });
+
+  if (!response.ok) return null;
+
+  const updated = await response.json() as OAuthClient[];
+  return updated.length > 0 ? clientSecret : null;
+}
+
+/**
+ * Inactive clients can no longer authenticate, start authorizations or refresh tokens
+ */
+export async function setClientActive(
+  clientId: string,
+  active: boolean,
+  env: OAuthEnv
+): Promise<OAuthClient | null> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_clients?client_id=eq.${encodeURIComponent(clientId)}`;
+
+  const response = await fetch(url, {
+    method: 'PATCH',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      'Prefer': 'return=representation',
+    },
+    body: JSON.stringify({ is_active: active, updated_at: new Date().toISOString() }),
+  });
+
+  if (!response.ok) return null;
+
+  const clients = await response.json() as OAuthClient[];
+  return clients[0] || null;
+}
@@ -0,0 +1,156 @@
+/**
+ * Connected Apps
+ * What a user has granted to OAuth clients, and removing that access again
+ */
+
+import { OAuthClient, OAuthConsent, OAuthEnv, RefreshTokenRecord, RevokedSession } from './types';
+import { queueBackchannelLogout } from './backchannel';
+
+export interface ConnectedApp {
+  client_id: string;
+  client_name: string;
+  logo_uri: string | null;
+  client_uri: string | null;
+  scopes: string[];
+  first_used_at: string;
+  last_used_at: string;
+  active_tokens: number;
+}
+
+type TokenUsage = Pick<RefreshTokenRecord, 'client_id' | 'scope' | 'created_at'>;
+
+// ========== Database Helpers ==========
+
+async function fetchRows<T>(url: string, env: OAuthEnv): Promise<T[] | null> {
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) {
+    console.error('Failed to fetch connected app data:', response.status);
+    return null;
+  }
+
+  return await response.json() as T[];
+}
+
+async function getClientsByIds(
+  clientIds: string[],
+  env: OAuthEnv
+): Promise<Array<Pick<OAuthClient, 'client_id' | 'client_name' | 'logo_uri' | 'client_uri'>> | null> {
+  const list = clientIds.map((id) => `"${id.replace(/"/g, '')}"`).join(',');
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_clients?client_id=in.(${encodeURIComponent(list)})&select=client_id,client_name,logo_uri,client_uri`;
+  return fetchRows(url, env);
+}
+
+// ========== Listing ==========
+
+/**
+ * List every client the user has consented to or holds live tokens for
+ * Revoked and expired tokens are left out: revoked rows are kept until
+ * expiry for reuse detection and would bring a removed app back.
+ * Rotation issues a new refresh token on every use, so the newest token
+ * row marks the last time the app used its access.
+ */
+export async function getConnectedApps(userId: string, env: OAuthEnv): Promise<ConnectedApp[] | null> {
+  const user = encodeURIComponent(userId);
+  const now = encodeURIComponent(new Date().toISOString());
+
+  const [consents, tokens] = await Promise.all([
+    fetchRows<OAuthConsent>(`${env.SUPABASE_URL}/rest/v1/oauth_consents?user_id=eq.${user}&select=*`, env),
+    fetchRows<TokenUsage>(
+      `${env.SUPABASE_URL}/rest/v1/oauth_refresh_tokens?user_id=eq.${user}&revoked=eq.false&expires_at=gt.${now}&select=client_id,scope,created_at`,
+      env
+    ),
+  ]);
+
+  if (!consents || !tokens) return null;
+
+  const clientIds = Array.from(new Set([...consents.map((c) => c.client_id), ...tokens.map((t) => t.client_id)]));
+  if (clientIds.length === 0) return [];
+
+  const clients = await getClientsByIds(clientIds, env);
+  if (!clients) return null;
+
+  const apps = clients.map((client): ConnectedApp => {
+    const consent = consents.find((c) => c.client_id === client.client_id);
+    const clientTokens = tokens.filter((t) => t.client_id === client.client_id);
+
+    const usedAt = [
+      ...(consent ? [consent.created_at, consent.updated_at] : []),
+      ...clientTokens.map((t) => t.created_at),
+    ].sort();
+
+    // Without a stored consent (e.g. first-party clients) the live tokens show what was granted
+    const scopes = consent
+      ? consent.scopes
+      : Array.from(new Set(clientTokens.flatMap((t) => t.scope.split(' '))));
+
+    return {
+      client_id: client.client_id,
+      client_name: client.client_name,
+      logo_uri: client.logo_uri,
+      client_uri: client.client_uri,
+      scopes,
+      first_used_at: usedAt[0],
+      last_used_at: usedAt[usedAt.length - 1],
+      active_tokens: clientTokens.length,
+    };
+  });
+
+  return apps.sort((a, b) => b.last_used_at.localeCompare(a.last_used_at));
+}
+
+// ========== Removing Access ==========
+
+/**
+ * Revoke the user's consent and every refresh token for one client
+ * Access tokens die with their family (sid), and the client is told
+ * through back-channel logout. Returns the queued logout deliveries,
+ * or null if nothing could be revoked.
+ */
+export async function revokeConnectedApp(userId: string, clientId: string, env: OAuthEnv): Promise<string[] | null> {
+  const filter = `user_id=eq.${encodeURIComponent(userId)}&client_id=eq.${encodeURIComponent(clientId)}`;
+
+  const tokenResponse = await fetch(`${env.SUPABASE_URL}/rest/v1/oauth_refresh_tokens?${filter}&revoked=eq.false`, {
+    method: 'PATCH',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      'Prefer': 'return=representation',
+    },
+    body: JSON.stringify({
+      revoked: true,
+      revoked_at: new Date().toISOString(),
+      revoked_reason: 'revoked',
+    }),
+  });
+
+  if (!tokenResponse.ok) {
+    console.error('Failed to revoke connected app tokens:', tokenResponse.status);
+    return null;
+  }
+
+  const revoked = await tokenResponse.json() as RevokedSession[];
+
+  const consentResponse = await fetch(`${env.SUPABASE_URL}/rest/v1/oauth_consents?${filter}`, {
+    method: 'DELETE',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  const queuedLogouts = await queueBackchannelLogout(revoked, env);
+
+  if (!consentResponse.ok) {
+    console.error('Failed to delete connected app consent:', consentResponse.status);
+    return null;
+  }
+
+  return queuedLogouts;
+}
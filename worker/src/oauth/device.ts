@@ -0,0 +1,317 @@
+/**
+ * OAuth 2.0 Device Authorization Grant (RFC 8628)
+ * /oauth/device_authorization - Device requests a device_code and user_code
+ * /oauth/device/session - Verification page looks up a user_code
+ * /oauth/device/callback - Verification page approves or denies the device
+ * The device then polls /oauth/token with the device_code grant (see token.ts)
+ */
+
+import {
+  OAuthClient,
+  OAuthEnv,
+  UserSession,
+  DeviceCodeRecord,
+  DeviceAuthorizationResponse,
+  DEVICE_CODE_GRANT_TYPE,
+  DEVICE_POLL_INTERVAL,
+  TOKEN_EXPIRY,
+} from './types';
+import { authenticateClient, clientAuthErrorResponse, parseOAuthRequestBody } from './client-auth';
+import { validateScopes, getConsent, saveConsent } from './authorize';
+import { generateDeviceCode, generateUserCode, hashToken } from '../utils/crypto';
+
+// ========== User Code Helpers ==========
+
+// Users may type the code in any case, with or without the dash
+function normalizeUserCode(input: string): string {
+  return input.toUpperCase().replace(/[^A-Z]/g, '');
+}
+
+function formatUserCode(code: string): string {
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+// ========== Database Helpers ==========
+
+async function getClient(clientId: string, env: OAuthEnv): Promise<OAuthClient | null> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_clients?client_id=eq.${encodeURIComponent(clientId)}&is_active=eq.true&select=*`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) return null;
+
+  const clients = await response.json() as OAuthClient[];
+  return clients[0] || null;
+}
+
+/**
+ * Store a new device code
+ * Returns 'conflict' when the user_code is already taken, so the caller can draw another
+ */
+async function storeDeviceCode(
+  record: Omit<DeviceCodeRecord, 'id' | 'created_at'>,
+  env: OAuthEnv
+): Promise<'stored' | 'conflict' | 'failed'> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_device_codes`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(record),
+  });
+
+  if (response.ok) return 'stored';
+  if (response.status === 409) return 'conflict';
+
+  console.error('Failed to store device code:', response.status);
+  return 'failed';
+}
+
+async function getPendingDeviceCode(userCode: string, env: OAuthEnv): Promise<DeviceCodeRecord | null> {
+  const now = encodeURIComponent(new Date().toISOString());
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_device_codes?user_code=eq.${encodeURIComponent(userCode)}&status=eq.pending&expires_at=gt.${now}&select=*`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) return null;
+
+  const records = await response.json() as DeviceCodeRecord[];
+  return records[0] || null;
+}
+
+/**
+ * Record the user's decision on a still-pending device code
+ * Returns false when the code was decided by another request first
+ */
+async function decideDeviceCode(
+  id: string,
+  changes: Pick<DeviceCodeRecord, 'status' | 'user_id' | 'auth_time'>,
+  env: OAuthEnv
+): Promise<boolean> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_device_codes?id=eq.${encodeURIComponent(id)}&status=eq.pending`;
+
+  const response = await fetch(url, {
+    method: 'PATCH',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      'Prefer': 'return=representation',
+    },
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok) return false;
+
+  const updated = await response.json() as DeviceCodeRecord[];
+  return updated.length > 0;
+}
+
+// ========== Response Helpers ==========
+
+function deviceError(error: string, description: string, status: number = 400): Response {
+  return new Response(
+    JSON.stringify({ error, error_description: description }),
+    {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+      },
+    }
+  );
+}
+
+function deviceResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+async function readUserCode(request: Request): Promise<{ userCode: string; approved: boolean } | null> {
+  try {
+    const body = await request.json() as { user_code?: unknown; approved?: unknown };
+    if (typeof body.user_code !== 'string') return null;
+    return {
+      userCode: normalizeUserCode(body.user_code),
+      approved: body.approved === true,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// ========== Handlers ==========
+
+/**
+ * Handle POST /oauth/device_authorization
+ * Public clients (TVs, CLIs) authenticate with client_id only
+ */
+export async function handleDeviceAuthorization(
+  request: Request,
+  env: OAuthEnv
+): Promise<Response> {
+  const params = await parseOAuthRequestBody(request);
+  if (!params) {
+    return deviceError('invalid_request', 'Content-Type must be application/x-www-form-urlencoded or application/json');
+  }
+
+  const auth = await authenticateClient(request, params, env);
+  if (!auth.authenticated) {
+    return clientAuthErrorResponse(auth);
+  }
+
+  const client = auth.client;
+  if (!client.grant_types.includes(DEVICE_CODE_GRANT_TYPE)) {
+    return deviceError('unauthorized_client', 'Client is not allowed to use the device authorization grant');
+  }
+
+  const scopes = validateScopes(params.scope || 'openid');
+  if (scopes.length === 0) {
+    return deviceError('invalid_scope', 'No valid scopes requested');
+  }
+
+  const deviceCode = generateDeviceCode();
+  const deviceCodeHash = await hashToken(deviceCode);
+  const expiresAt = new Date(Date.now() + TOKEN_EXPIRY.DEVICE_CODE * 1000).toISOString();
+
+  // A user_code collision is unlikely but possible; draw a new one a few times
+  let userCode: string | null = null;
+  for (let attempt = 0; attempt < 3 && !userCode; attempt++) {
+    const candidate = generateUserCode();
+    const result = await storeDeviceCode(
+      {
+        device_code_hash: deviceCodeHash,
+        user_code: candidate,
+        client_id: client.client_id,
+        scope: scopes.join(' '),
+        status: 'pending',
+        user_id: null,
+        auth_time: null,
+        poll_interval: DEVICE_POLL_INTERVAL,
+        last_polled_at: null,
+        expires_at: expiresAt,
+      },
+      env
+    );
+
+    if (result === 'failed') break;
+    if (result === 'stored') userCode = candidate;
+  }
+
+  if (!userCode) {
+    return deviceError('server_error', 'Failed to create device code', 500);
+  }
+
+  const frontendUrl = env.FUNID_FRONTEND_URL || 'https://soul-spark-web3.lovable.app';
+  const verificationUri = new URL('/device', frontendUrl);
+  const verificationUriComplete = new URL(verificationUri);
+  verificationUriComplete.searchParams.set('user_code', formatUserCode(userCode));
+
+  const body: DeviceAuthorizationResponse = {
+    device_code: deviceCode,
+    user_code: formatUserCode(userCode),
+    verification_uri: verificationUri.toString(),
+    verification_uri_complete: verificationUriComplete.toString(),
+    expires_in: TOKEN_EXPIRY.DEVICE_CODE,
+    interval: DEVICE_POLL_INTERVAL,
+  };
+
+  return deviceResponse(body);
+}
+
+/**
+ * Handle POST /oauth/device/session
+ * Called by the verification page once the user has entered a code
+ * Every requested scope is shown, even ones granted before: the user must
+ * confirm that the device in front of them is the one asking (RFC 8628 Section 5.4)
+ */
+export async function handleDeviceSession(
+  session: UserSession,
+  request: Request,
+  env: OAuthEnv
+): Promise<Response> {
+  const body = await readUserCode(request);
+  if (!body) {
+    return deviceError('invalid_request', 'Missing user_code');
+  }
+
+  const record = await getPendingDeviceCode(body.userCode, env);
+  if (!record) {
+    return deviceError('invalid_grant', 'Code is invalid or has expired', 404);
+  }
+
+  const client = await getClient(record.client_id, env);
+  if (!client) {
+    return deviceError('invalid_client', 'Client not found or inactive');
+  }
+
+  return deviceResponse({
+    user_code: formatUserCode(record.user_code),
+    client_id: client.client_id,
+    client_name: client.client_name,
+    logo_uri: client.logo_uri,
+    scopes: record.scope.split(' '),
+  });
+}
+
+/**
+ * Handle POST /oauth/device/callback
+ * Records the user's decision; the polling device picks it up at /oauth/token
+ */
+export async function handleDeviceCallback(
+  session: UserSession,
+  request: Request,
+  env: OAuthEnv
+): Promise<Response> {
+  const body = await readUserCode(request);
+  if (!body) {
+    return deviceError('invalid_request', 'Missing user_code');
+  }
+
+  const record = await getPendingDeviceCode(body.userCode, env);
+  if (!record) {
+    return deviceError('invalid_grant', 'Code is invalid or has expired', 404);
+  }
+
+  const decided = await decideDeviceCode(
+    record.id,
+    {
+      status: body.approved ? 'approved' : 'denied',
+      user_id: session.user_id,
+      auth_time: new Date(session.auth_time * 1000).toISOString(),
+    },
+    env
+  );
+
+  if (!decided) {
+    return deviceError('invalid_grant', 'Code has already been used');
+  }
+
+  if (body.approved) {
+    // Remember consent like the browser flow; scopes granted earlier stay granted
+    const scopes = record.scope.split(' ');
+    const consent = await getConsent(session.user_id, record.client_id, env);
+    await saveConsent(session.user_id, record.client_id, Array.from(new Set([...(consent?.scopes || []), ...scopes])), env);
+  }
+
+  return deviceResponse({ success: true, approved: body.approved });
+}
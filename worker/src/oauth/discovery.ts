@@ -3,7 +3,7 @@
  * /.well-known/openid-configuration
  */
 
-import { OpenIDConfiguration, OAuthEnv, SUPPORTED_SCOPES } from './types';
+import { OpenIDConfiguration, OAuthEnv, SUPPORTED_SCOPES, SUPPORTED_PROMPTS, SUPPORTED_GRANT_TYPES } from './types';
 
 /**
  * Build the OpenID Connect Discovery document
@@ -21,15 +21,24 @@ export function buildOpenIDConfiguration(env: OAuthEnv): OpenIDConfiguration {
     token_endpoint: `${issuer}/oauth/token`,
     userinfo_endpoint: `${issuer}/oauth/userinfo`,
     jwks_uri: `${issuer}/.well-known/jwks.json`,
+    revocation_endpoint: `${issuer}/oauth/revoke`,
+    introspection_endpoint: `${issuer}/oauth/introspect`,
+    end_session_endpoint: `${issuer}/oauth/logout`,
+    device_authorization_endpoint: `${issuer}/oauth/device_authorization`,
+    registration_endpoint: `${issuer}/oauth/register`,
+    backchannel_logout_supported: true,
+    backchannel_logout_session_supported: true,
 
     // Supported features
     scopes_supported: [...SUPPORTED_SCOPES],
     response_types_supported: ['code'],
-    grant_types_supported: ['authorization_code', 'refresh_token'],
+    grant_types_supported: [...SUPPORTED_GRANT_TYPES],
     subject_types_supported: ['public'],
     id_token_signing_alg_values_supported: ['RS256'],
-    token_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic'],
-    
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+    revocation_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+    introspection_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+
     // Supported claims
     claims_supported: [
       'sub',
@@ -37,7 +46,9 @@ export function buildOpenIDConfiguration(env: OAuthEnv): OpenIDConfiguration {
       'aud',
       'exp',
       'iat',
+      'auth_time',
       'nonce',
+      'sid',
       'name',
       'picture',
       'email',
@@ -47,6 +58,9 @@ export function buildOpenIDConfiguration(env: OAuthEnv): OpenIDConfiguration {
 
     // PKCE support (required for public clients)
     code_challenge_methods_supported: ['S256'],
+
+    // prompt=none enables silent session checks
+    prompt_values_supported: [...SUPPORTED_PROMPTS],
   };
 }
 
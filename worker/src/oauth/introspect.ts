@@ -0,0 +1,162 @@
+/**
+ * OAuth 2.0 Token Introspection Endpoint (RFC 7662)
+ * /oauth/introspect - Lets resource servers check whether a token is active
+ */
+
+import {
+  OAuthEnv,
+  OAuthClient,
+  RefreshTokenRecord,
+  IntrospectionResponse,
+} from './types';
+import { authenticateClient, clientAuthErrorResponse, parseOAuthRequestBody } from './client-auth';
+import { isAccessTokenRevoked } from './revoke';
+import { hashToken, verifyAccessToken } from '../utils/crypto';
+
+// ========== Database Helpers ==========
+
+async function getRefreshTokenRecord(tokenHash: string, env: OAuthEnv): Promise<RefreshTokenRecord | null> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_refresh_tokens?token_hash=eq.${encodeURIComponent(tokenHash)}&revoked=eq.false&select=*`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) return null;
+
+  const records = await response.json() as RefreshTokenRecord[];
+  return records[0] || null;
+}
+
+async function isClientActive(clientId: string, env: OAuthEnv): Promise<boolean> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_clients?client_id=eq.${encodeURIComponent(clientId)}&is_active=eq.true&select=client_id`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) return false;
+
+  const clients = await response.json() as Array<Pick<OAuthClient, 'client_id'>>;
+  return clients.length > 0;
+}
+
+// ========== Response Helpers ==========
+
+function introspectionResponse(body: IntrospectionResponse): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      'Pragma': 'no-cache',
+    },
+  });
+}
+
+function introspectionError(error: string, description: string, status: number = 400): Response {
+  return new Response(
+    JSON.stringify({ error, error_description: description }),
+    {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+        'Pragma': 'no-cache',
+      },
+    }
+  );
+}
+
+// ========== Token Type Handlers ==========
+
+async function introspectAccessToken(token: string, env: OAuthEnv): Promise<IntrospectionResponse | null> {
+  const claims = await verifyAccessToken(token, env);
+  if (!claims) return null;
+
+  if (await isAccessTokenRevoked(claims, env)) return null;
+  if (!(await isClientActive(claims.client_id, env))) return null;
+
+  return {
+    active: true,
+    scope: claims.scope,
+    client_id: claims.client_id,
+    sub: claims.sub,
+    aud: claims.aud,
+    iss: claims.iss,
+    exp: claims.exp,
+    iat: claims.iat,
+    jti: claims.jti,
+    token_type: 'Bearer',
+  };
+}
+
+async function introspectRefreshToken(
+  token: string,
+  caller: OAuthClient,
+  env: OAuthEnv
+): Promise<IntrospectionResponse | null> {
+  const record = await getRefreshTokenRecord(await hashToken(token), env);
+  if (!record) return null;
+
+  // Refresh tokens are only meaningful to the client they were issued to
+  if (record.client_id !== caller.client_id) return null;
+
+  if (new Date(record.expires_at) < new Date()) return null;
+  if (!(await isClientActive(record.client_id, env))) return null;
+
+  return {
+    active: true,
+    scope: record.scope,
+    client_id: record.client_id,
+    sub: record.user_id,
+    exp: Math.floor(new Date(record.expires_at).getTime() / 1000),
+    iat: Math.floor(new Date(record.created_at).getTime() / 1000),
+  };
+}
+
+// ========== Main Handler ==========
+
+/**
+ * Handle POST /oauth/introspect
+ * Only confidential clients (resource servers) may introspect tokens
+ */
+export async function handleIntrospect(
+  request: Request,
+  env: OAuthEnv
+): Promise<Response> {
+  const params = await parseOAuthRequestBody(request);
+  if (!params) {
+    return introspectionError('invalid_request', 'Content-Type must be application/x-www-form-urlencoded or application/json');
+  }
+
+  const { token, token_type_hint } = params;
+  if (!token) {
+    return introspectionError('invalid_request', 'Missing token parameter');
+  }
+
+  const auth = await authenticateClient(request, params, env);
+  if (!auth.authenticated) {
+    return clientAuthErrorResponse(auth);
+  }
+
+  if (!auth.client.is_confidential) {
+    return introspectionError('unauthorized_client', 'Public clients may not introspect tokens', 403);
+  }
+
+  const looksLikeJwt = token.split('.').length === 3;
+  const refreshFirst = token_type_hint === 'refresh_token' || (token_type_hint !== 'access_token' && !looksLikeJwt);
+
+  const result = refreshFirst
+    ? (await introspectRefreshToken(token, auth.client, env)) ?? (await introspectAccessToken(token, env))
+    : (await introspectAccessToken(token, env)) ?? (await introspectRefreshToken(token, auth.client, env));
+
+  // Inactive tokens reveal nothing beyond their state (RFC 7662 Section 2.2)
+  return introspectionResponse(result ?? { active: false });
+}
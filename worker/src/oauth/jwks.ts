@@ -4,20 +4,28 @@
  */
 
 import { JWKS, OAuthEnv } from './types';
-import { exportPublicKeyAsJWK } from '../utils/crypto';
+import { exportPublicKeysAsJWKS } from '../utils/crypto';
+
+const JWKS_MAX_AGE_SECONDS = 3600;
+const JWKS_STALE_WHILE_REVALIDATE_SECONDS = 86400;
+
+// Longest a client may keep using a JWKS it fetched; a key must be
+// published at least this long before it can start signing
+export const JWKS_CACHE_LIFETIME_SECONDS = JWKS_MAX_AGE_SECONDS + JWKS_STALE_WHILE_REVALIDATE_SECONDS;
 
 /**
  * Handle GET /.well-known/jwks.json
  * Returns the public keys for JWT verification
+ * Publishes the current key plus any next/retiring keys during rotation
  */
 export async function handleJWKS(
   request: Request,
   env: OAuthEnv
 ): Promise<Response> {
   try {
-    const jwk = await exportPublicKeyAsJWK(env);
+    const keys = await exportPublicKeysAsJWKS(env);
 
-    if (!jwk) {
+    if (keys.length === 0) {
       // Return empty JWKS if no key is configured
       // This allows the endpoint to work during development
       const emptyJwks: JWKS = { keys: [] };
@@ -26,14 +34,14 @@ export async function handleJWKS(
         status: 200,
         headers: {
           'Content-Type': 'application/json',
-          'Cache-Control': 'public, max-age=3600',
+          'Cache-Control': `public, max-age=${JWKS_MAX_AGE_SECONDS}`,
           'Access-Control-Allow-Origin': '*',
         },
       });
     }
 
     const jwks: JWKS = {
-      keys: [jwk],
+      keys,
     };
 
     return new Response(JSON.stringify(jwks, null, 2), {
@@ -41,7 +49,7 @@ export async function handleJWKS(
       headers: {
         'Content-Type': 'application/json',
         // Cache for 1 hour, but allow revalidation for key rotation
-        'Cache-Control': 'public, max-age=3600, stale-while-revalidate=86400',
+        'Cache-Control': `public, max-age=${JWKS_MAX_AGE_SECONDS}, stale-while-revalidate=${JWKS_STALE_WHILE_REVALIDATE_SECONDS}`,
         'Access-Control-Allow-Origin': '*',
       },
     });
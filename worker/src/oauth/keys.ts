@@ -0,0 +1,227 @@
+/**
+ * Signing Key Set for OAuth 2.0 / OIDC
+ * Key material comes from secrets, key lifecycle (next/current/retiring) from oauth_signing_keys
+ */
+
+import { importPKCS8, importSPKI, KeyLike } from 'jose';
+import { OAuthEnv, SigningKeyStatus, SigningKeyRecord } from './types';
+
+// ========== Types ==========
+
+interface KeySetEntry {
+  kid: string;
+  private_key?: string;
+  public_key: string;
+}
+
+export interface SigningKey {
+  kid: string;
+  status: SigningKeyStatus;
+  privateKey: KeyLike | null;
+  publicKey: KeyLike;
+}
+
+// ========== Cache ==========
+
+// Other isolates pick up a promotion within this window
+const KEY_CACHE_TTL_MS = 60 * 1000;
+
+let cachedKeys: SigningKey[] | null = null;
+let cachedAt = 0;
+
+// ========== Key Material ==========
+
+/**
+ * Read key material from FUNID_RSA_KEYSET (JSON array of { kid, private_key, public_key }),
+ * falling back to the legacy single-key secrets
+ */
+function readKeySet(env: OAuthEnv): KeySetEntry[] {
+  if (env.FUNID_RSA_KEYSET) {
+    try {
+      const parsed = JSON.parse(env.FUNID_RSA_KEYSET) as unknown;
+      if (!Array.isArray(parsed)) throw new Error('FUNID_RSA_KEYSET must be a JSON array');
+
+      return parsed.filter((entry): entry is KeySetEntry =>
+        typeof entry?.kid === 'string' && typeof entry?.public_key === 'string'
+      );
+    } catch (error) {
+      console.error('Invalid FUNID_RSA_KEYSET:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  if (env.FUNID_RSA_PUBLIC_KEY) {
+    return [{
+      kid: env.FUNID_RSA_KID || 'funid-key-2026',
+      private_key: env.FUNID_RSA_PRIVATE_KEY,
+      public_key: env.FUNID_RSA_PUBLIC_KEY,
+    }];
+  }
+
+  return [];
+}
+
+// ========== Database Helpers ==========
+
+/**
+ * Status of each kid in oauth_signing_keys; null when the table could not be read
+ */
+async function getKeyStatuses(env: OAuthEnv): Promise<Map<string, SigningKeyStatus> | null> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_signing_keys?select=kid,status`;
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+        'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      },
+    });
+
+    if (!response.ok) {
+      console.error('Failed to load signing key statuses:', response.status);
+      return null;
+    }
+
+    const rows = await response.json() as Array<Pick<SigningKeyRecord, 'kid' | 'status'>>;
+    return new Map(rows.map((row) => [row.kid, row.status]));
+  } catch (error) {
+    console.error('Failed to load signing key statuses:', error);
+    return null;
+  }
+}
+
+/**
+ * Record newly configured kids as "next"
+ * Their created_at is when the key was first published, which promotion checks against.
+ */
+async function recordPublishedKeys(kids: string[], env: OAuthEnv): Promise<void> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_signing_keys?on_conflict=kid`;
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+        'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+        'Content-Type': 'application/json',
+        'Prefer': 'resolution=ignore-duplicates,return=minimal',
+      },
+      body: JSON.stringify(kids.map((kid) => ({ kid, status: 'next' }))),
+    });
+
+    if (!response.ok) {
+      console.error('Failed to record published signing keys:', response.status);
+    }
+  } catch (error) {
+    console.error('Failed to record published signing keys:', error);
+  }
+}
+
+export type PromoteSigningKeyResult =
+  | { promoted: true }
+  | { error: 'not_published' }
+  | { error: 'published_too_recently'; promotable_at: string }
+  | { error: 'server_error' };
+
+/**
+ * Make a key current, provided it has been in the JWKS for at least minPublishedSeconds
+ */
+export async function promoteSigningKey(
+  kid: string,
+  minPublishedSeconds: number,
+  env: OAuthEnv
+): Promise<PromoteSigningKeyResult> {
+  const url = `${env.SUPABASE_URL}/rest/v1/rpc/promote_oauth_signing_key`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ _kid: kid, _min_published_seconds: minPublishedSeconds }),
+  });
+
+  if (!response.ok) {
+    console.error('Failed to promote signing key:', kid, response.status);
+    return { error: 'server_error' };
+  }
+
+  const result = await response.json() as PromoteSigningKeyResult;
+  if ('promoted' in result) {
+    clearSigningKeyCache();
+  }
+
+  return result;
+}
+
+// ========== Key Set Loading ==========
+
+/**
+ * Resolve each configured key's status
+ * Keys without a status row are "next". If the table has no current key
+ * (fresh deployment), the first configured key signs. Without statuses
+ * (database unavailable) every key is "next", so nothing signs.
+ */
+async function loadSigningKeys(env: OAuthEnv): Promise<{ keys: SigningKey[]; statusesLoaded: boolean }> {
+  const entries = readKeySet(env);
+  if (entries.length === 0) return { keys: [], statusesLoaded: true };
+
+  const statuses = await getKeyStatuses(env);
+  const hasCurrent = statuses !== null && entries.some((entry) => statuses.get(entry.kid) === 'current');
+
+  const unrecorded = statuses ? entries.filter((entry) => !statuses.has(entry.kid)) : [];
+  if (unrecorded.length > 0) {
+    await recordPublishedKeys(unrecorded.map((entry) => entry.kid), env);
+  }
+
+  const keys: SigningKey[] = [];
+  for (const [index, entry] of entries.entries()) {
+    const status = statuses && !hasCurrent && index === 0 ? 'current' : statuses?.get(entry.kid) || 'next';
+
+    try {
+      keys.push({
+        kid: entry.kid,
+        status,
+        privateKey: entry.private_key ? await importPKCS8(entry.private_key, 'RS256') : null,
+        publicKey: await importSPKI(entry.public_key, 'RS256'),
+      });
+    } catch (error) {
+      console.error('Failed to import signing key:', entry.kid, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return { keys, statusesLoaded: statuses !== null };
+}
+
+/**
+ * All keys that should be published and accepted for verification
+ * A failed status lookup keeps the last good key set rather than guessing
+ * which key is current; it is retried on the next call.
+ */
+export async function getSigningKeys(env: OAuthEnv): Promise<SigningKey[]> {
+  if (!cachedKeys || Date.now() - cachedAt > KEY_CACHE_TTL_MS) {
+    const { keys, statusesLoaded } = await loadSigningKeys(env);
+    if (!statusesLoaded) {
+      return cachedKeys ?? keys;
+    }
+
+    cachedKeys = keys;
+    cachedAt = Date.now();
+  }
+  return cachedKeys;
+}
+
+/**
+ * The key new tokens are signed with
+ */
+export async function getActiveSigningKey(env: OAuthEnv): Promise<SigningKey | null> {
+  const keys = await getSigningKeys(env);
+  return keys.find((key) => key.status === 'current' && key.privateKey) || null;
+}
+
+export function clearSigningKeyCache(): void {
+  cachedKeys = null;
+  cachedAt = 0;
+}
@@ -0,0 +1,194 @@
+/**
+ * OIDC RP-Initiated Logout (end_session_endpoint)
+ * /oauth/logout - Lets relying parties end the user's session with their app
+ * /oauth/sessions/logout - Ends every app session when the user signs out of FUN Profile
+ */
+
+import { OAuthEnv, OAuthClient, RevokedSession, LogoutQueueingResponse } from './types';
+import { parseOAuthRequestBody } from './client-auth';
+import { queueBackchannelLogout, withoutQueuedLogouts } from './backchannel';
+import { verifyIDTokenHint } from '../utils/crypto';
+
+// ========== Database Helpers ==========
+
+async function getClient(clientId: string, env: OAuthEnv): Promise<OAuthClient | null> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_clients?client_id=eq.${encodeURIComponent(clientId)}&is_active=eq.true&select=*`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) return null;
+
+  const clients = await response.json() as OAuthClient[];
+  return clients[0] || null;
+}
+
+/**
+ * Revoke the user's active refresh tokens, for one client or all of them
+ * Access tokens die with them through the family (sid) check.
+ * Returns the revoked sessions, or null on failure.
+ */
+async function revokeUserTokens(
+  userId: string,
+  clientId: string | null,
+  env: OAuthEnv
+): Promise<RevokedSession[] | null> {
+  let url = `${env.SUPABASE_URL}/rest/v1/oauth_refresh_tokens?user_id=eq.${encodeURIComponent(userId)}&revoked=eq.false`;
+  if (clientId) {
+    url += `&client_id=eq.${encodeURIComponent(clientId)}`;
+  }
+
+  const response = await fetch(url, {
+    method: 'PATCH',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      'Prefer': 'return=representation',
+    },
+    body: JSON.stringify({
+      revoked: true,
+      revoked_at: new Date().toISOString(),
+      revoked_reason: 'logout',
+    }),
+  });
+
+  if (!response.ok) return null;
+
+  return await response.json() as RevokedSession[];
+}
+
+// ========== Response Helpers ==========
+
+function logoutError(error: string, description: string, status: number = 400): Response {
+  return new Response(
+    JSON.stringify({ error, error_description: description }),
+    {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+      },
+    }
+  );
+}
+
+function logoutRedirect(location: string): Response {
+  return new Response(null, {
+    status: 302,
+    headers: {
+      'Location': location,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+// ========== Main Handler ==========
+
+/**
+ * Handle GET/POST /oauth/logout
+ * - id_token_hint identifies the user and client whose tokens are revoked
+ * - post_logout_redirect_uri must be registered for that client; state is echoed back
+ * - Without a valid redirect the user lands on the FUN Profile frontend
+ */
+export async function handleEndSession(
+  request: Request,
+  env: OAuthEnv
+): Promise<LogoutQueueingResponse> {
+  let params: Record<string, string>;
+
+  if (request.method === 'POST') {
+    const body = await parseOAuthRequestBody(request);
+    if (!body) {
+      return withoutQueuedLogouts(logoutError('invalid_request', 'Content-Type must be application/x-www-form-urlencoded or application/json'));
+    }
+    params = body;
+  } else {
+    params = Object.fromEntries(new URL(request.url).searchParams.entries());
+  }
+
+  const { id_token_hint, post_logout_redirect_uri, state } = params;
+  let clientId = params.client_id;
+  let userId: string | null = null;
+
+  if (id_token_hint) {
+    const hint = await verifyIDTokenHint(id_token_hint, env);
+    if (!hint) {
+      return withoutQueuedLogouts(logoutError('invalid_request', 'Invalid id_token_hint'));
+    }
+    if (clientId && clientId !== hint.aud) {
+      return withoutQueuedLogouts(logoutError('invalid_request', 'client_id does not match id_token_hint'));
+    }
+    clientId = hint.aud;
+    userId = hint.sub;
+  }
+
+  const frontendUrl = env.FUNID_FRONTEND_URL || 'https://soul-spark-web3.lovable.app';
+  let redirectTo = new URL('/', frontendUrl).toString();
+
+  if (post_logout_redirect_uri) {
+    // Without a client we cannot check the URI, so never redirect to it
+    if (!clientId) {
+      return withoutQueuedLogouts(logoutError('invalid_request', 'post_logout_redirect_uri requires id_token_hint or client_id'));
+    }
+
+    const client = await getClient(clientId, env);
+    if (!client) {
+      return withoutQueuedLogouts(logoutError('invalid_client', 'Client not found or inactive'));
+    }
+
+    if (!client.post_logout_redirect_uris.includes(post_logout_redirect_uri)) {
+      return withoutQueuedLogouts(logoutError('invalid_request', 'post_logout_redirect_uri not registered for this client'));
+    }
+
+    const url = new URL(post_logout_redirect_uri);
+    if (state) {
+      url.searchParams.set('state', state);
+    }
+    redirectTo = url.toString();
+  }
+
+  // Only a verified id_token_hint proves whose session to end
+  let queuedLogouts: string[] = [];
+  if (userId && clientId) {
+    const revoked = await revokeUserTokens(userId, clientId, env);
+    if (!revoked) {
+      return withoutQueuedLogouts(logoutError('server_error', 'Failed to end session', 500));
+    }
+    queuedLogouts = await queueBackchannelLogout(revoked, env);
+  }
+
+  return { response: logoutRedirect(redirectTo), queuedLogouts };
+}
+
+/**
+ * Handle POST /oauth/sessions/logout
+ * Called by the FUN Profile frontend on sign-out: revokes the user's tokens
+ * for every client and queues back-channel logout notifications, which it returns
+ */
+export async function handleEndAllSessions(
+  userId: string,
+  request: Request,
+  env: OAuthEnv
+): Promise<LogoutQueueingResponse> {
+  const revoked = await revokeUserTokens(userId, null, env);
+  if (!revoked) {
+    return withoutQueuedLogouts(logoutError('server_error', 'Failed to end sessions', 500));
+  }
+
+  const queuedLogouts = await queueBackchannelLogout(revoked, env);
+
+  const response = new Response(
+    JSON.stringify({ success: true, sessions_ended: new Set(revoked.map((s) => s.family_id)).size }),
+    {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    }
+  );
+
+  return { response, queuedLogouts };
+}
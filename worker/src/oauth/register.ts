@@ -0,0 +1,219 @@
+/**
+ * OAuth 2.0 Dynamic Client Registration (RFC 7591) and Management (RFC 7592)
+ * /oauth/register - Register a client (admin or initial access token)
+ * /oauth/register/:client_id - Read, update or delete it (registration access token)
+ */
+
+import { OAuthClient, OAuthEnv, UserSession, ClientRegistrationResponse } from './types';
+import {
+  validateClientMetadata,
+  toClientMetadata,
+  createClient,
+  updateClient,
+  deleteClient,
+  getClientByRegistrationToken,
+} from './clients';
+import { isAdmin } from './admin';
+import { logSecurityEvent } from './security-events';
+import { hashToken, verifyTokenHash } from '../utils/crypto';
+
+// ========== Request Helpers ==========
+
+function extractBearerToken(request: Request): string | null {
+  const authHeader = request.headers.get('Authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+  return authHeader.slice(7) || null;
+}
+
+async function readJsonObject(request: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' && !Array.isArray(body) ? body as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Registration is open to admins and to holders of the initial access token
+ * Returns the user to record as creator (null for the initial access token), or false
+ */
+async function authorizeRegistration(
+  session: UserSession | null,
+  request: Request,
+  env: OAuthEnv
+): Promise<{ createdBy: string | null } | false> {
+  if (session && await isAdmin(session.user_id, env)) {
+    return { createdBy: session.user_id };
+  }
+
+  const token = extractBearerToken(request);
+  if (token && env.FUNID_INITIAL_ACCESS_TOKEN
+    && await verifyTokenHash(token, await hashToken(env.FUNID_INITIAL_ACCESS_TOKEN))) {
+    return { createdBy: null };
+  }
+
+  return false;
+}
+
+// ========== Response Helpers ==========
+
+function registrationError(error: string, description: string, status: number = 400): Response {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+  };
+
+  if (status === 401) {
+    headers['WWW-Authenticate'] = `Bearer error="${error}"`;
+  }
+
+  return new Response(
+    JSON.stringify({ error, error_description: description }),
+    { status, headers }
+  );
+}
+
+function registrationResponse(
+  client: OAuthClient,
+  secrets: { clientSecret?: string | null; registrationAccessToken?: string },
+  status: number,
+  env: OAuthEnv
+): Response {
+  const issuer = env.FUNID_ISSUER || 'https://funprofile-api.funecosystem.org';
+
+  const body: ClientRegistrationResponse = {
+    client_id: client.client_id,
+    client_id_issued_at: Math.floor(new Date(client.created_at).getTime() / 1000),
+    ...toClientMetadata(client),
+    registration_client_uri: `${issuer}/oauth/register/${encodeURIComponent(client.client_id)}`,
+  };
+
+  if (secrets.clientSecret) {
+    body.client_secret = secrets.clientSecret;
+    body.client_secret_expires_at = 0; // Never expires
+  }
+  if (secrets.registrationAccessToken) {
+    body.registration_access_token = secrets.registrationAccessToken;
+  }
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      'Pragma': 'no-cache',
+    },
+  });
+}
+
+// ========== Handlers ==========
+
+/**
+ * Handle POST /oauth/register
+ * The client secret and registration access token are returned once and only stored hashed
+ */
+export async function handleRegisterClient(
+  session: UserSession | null,
+  request: Request,
+  env: OAuthEnv
+): Promise<Response> {
+  const authorization = await authorizeRegistration(session, request, env);
+  if (!authorization) {
+    return registrationError('invalid_token', 'Admin role or initial access token required', 401);
+  }
+
+  const body = await readJsonObject(request);
+  if (!body) {
+    return registrationError('invalid_client_metadata', 'Request body must be a JSON object');
+  }
+
+  const validation = validateClientMetadata(body);
+  if (!validation.valid) {
+    return registrationError(validation.error, validation.description);
+  }
+
+  const created = await createClient(validation.metadata, authorization.createdBy, env);
+  if (!created) {
+    return registrationError('server_error', 'Failed to register client', 500);
+  }
+
+  await logSecurityEvent(
+    {
+      event_type: 'client_registered',
+      user_id: authorization.createdBy,
+      client_id: created.client.client_id,
+      details: { authorized_by: authorization.createdBy ? 'admin' : 'initial_access_token' },
+    },
+    request,
+    env
+  );
+
+  return registrationResponse(
+    created.client,
+    { clientSecret: created.clientSecret, registrationAccessToken: created.registrationAccessToken },
+    201,
+    env
+  );
+}
+
+/**
+ * Handle GET/PUT/DELETE /oauth/register/:client_id
+ * PUT replaces the whole configuration, omitted fields fall back to defaults (RFC 7592 Section 2.2)
+ */
+export async function handleClientConfiguration(
+  clientId: string,
+  request: Request,
+  env: OAuthEnv
+): Promise<Response> {
+  const token = extractBearerToken(request);
+  const client = token ? await getClientByRegistrationToken(clientId, token, env) : null;
+
+  // Same answer for unknown clients and bad tokens, so client_ids cannot be probed
+  if (!client) {
+    return registrationError('invalid_token', 'Invalid registration access token', 401);
+  }
+
+  if (request.method === 'GET') {
+    return registrationResponse(client, {}, 200, env);
+  }
+
+  if (request.method === 'DELETE') {
+    if (!(await deleteClient(client.client_id, env))) {
+      return registrationError('server_error', 'Failed to delete client', 500);
+    }
+    // client_id goes in details: the column references oauth_clients, which no longer has the row
+    await logSecurityEvent(
+      {
+        event_type: 'client_deleted',
+        user_id: null,
+        client_id: null,
+        details: { client_id: client.client_id, client_name: client.client_name },
+      },
+      request,
+      env
+    );
+    return new Response(null, { status: 204, headers: { 'Cache-Control': 'no-store' } });
+  }
+
+  const body = await readJsonObject(request);
+  if (!body) {
+    return registrationError('invalid_client_metadata', 'Request body must be a JSON object');
+  }
+
+  if (body.client_id !== undefined && body.client_id !== client.client_id) {
+    return registrationError('invalid_client_metadata', 'client_id does not match');
+  }
+
+  const validation = validateClientMetadata(body);
+  if (!validation.valid) {
+    return registrationError(validation.error, validation.description);
+  }
+
+  const updated = await updateClient(client, validation.metadata, env);
+  if (!updated) {
+    return registrationError('server_error', 'Failed to update client', 500);
+  }
+
+  return registrationResponse(updated.client, { clientSecret: updated.clientSecret }, 200, env);
+}
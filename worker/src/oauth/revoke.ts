@@ -0,0 +1,239 @@
+/**
+ * OAuth 2.0 Token Revocation Endpoint (RFC 7009)
+ * /oauth/revoke - Lets clients invalidate refresh and access tokens
+ */
+
+import { OAuthEnv, RefreshTokenRecord, AccessTokenClaims, LogoutQueueingResponse } from './types';
+import { authenticateClient, clientAuthErrorResponse, parseOAuthRequestBody } from './client-auth';
+import { queueBackchannelLogout, withoutQueuedLogouts } from './backchannel';
+import { hashToken, verifyAccessToken } from '../utils/crypto';
+
+// ========== Database Helpers ==========
+
+async function getRefreshTokenRecord(tokenHash: string, env: OAuthEnv): Promise<RefreshTokenRecord | null> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_refresh_tokens?token_hash=eq.${encodeURIComponent(tokenHash)}&select=*`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) return null;
+
+  const records = await response.json() as RefreshTokenRecord[];
+  return records[0] || null;
+}
+
+async function revokeTokenFamily(familyId: string, env: OAuthEnv): Promise<boolean> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_refresh_tokens?family_id=eq.${encodeURIComponent(familyId)}&revoked=eq.false`;
+
+  const response = await fetch(url, {
+    method: 'PATCH',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      revoked: true,
+      revoked_at: new Date().toISOString(),
+      revoked_reason: 'revoked',
+    }),
+  });
+
+  return response.ok;
+}
+
+async function storeRevokedAccessToken(claims: AccessTokenClaims, env: OAuthEnv): Promise<boolean> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_revoked_access_tokens`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      // Revoking twice is not an error
+      'Prefer': 'resolution=ignore-duplicates',
+    },
+    body: JSON.stringify({
+      jti: claims.jti,
+      client_id: claims.client_id,
+      user_id: claims.sub || null,
+      expires_at: new Date(claims.exp * 1000).toISOString(),
+    }),
+  });
+
+  return response.ok;
+}
+
+async function isRevokedJti(jti: string, env: OAuthEnv): Promise<boolean> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_revoked_access_tokens?jti=eq.${encodeURIComponent(jti)}&select=jti`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  // Fail closed: if we cannot tell, treat the token as revoked
+  if (!response.ok) return true;
+
+  const rows = await response.json() as Array<{ jti: string }>;
+  return rows.length > 0;
+}
+
+/**
+ * A family is alive while at least one of its refresh tokens is unrevoked
+ */
+async function isTokenFamilyActive(familyId: string, env: OAuthEnv): Promise<boolean> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_refresh_tokens?family_id=eq.${encodeURIComponent(familyId)}&revoked=eq.false&select=id&limit=1`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) return false;
+
+  const rows = await response.json() as Array<{ id: string }>;
+  return rows.length > 0;
+}
+
+/**
+ * Check whether a verified access token has been revoked,
+ * either directly (by jti) or through its refresh token family (sid)
+ */
+export async function isAccessTokenRevoked(claims: AccessTokenClaims, env: OAuthEnv): Promise<boolean> {
+  if (claims.jti && await isRevokedJti(claims.jti, env)) {
+    return true;
+  }
+
+  if (claims.sid && !(await isTokenFamilyActive(claims.sid, env))) {
+    return true;
+  }
+
+  return false;
+}
+
+// ========== Response Helpers ==========
+
+function revocationError(error: string, description: string, status: number = 400): Response {
+  return new Response(
+    JSON.stringify({ error, error_description: description }),
+    {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+        'Pragma': 'no-cache',
+      },
+    }
+  );
+}
+
+function revocationSuccess(): Response {
+  // RFC 7009 Section 2.2: the content of the response body is ignored by the client
+  return new Response(null, {
+    status: 200,
+    headers: {
+      'Cache-Control': 'no-store',
+      'Pragma': 'no-cache',
+    },
+  });
+}
+
+// ========== Token Type Handlers ==========
+
+type RevocationOutcome = 'revoked' | 'not_found' | 'wrong_client' | 'failed';
+
+interface RevocationResult {
+  outcome: RevocationOutcome;
+  queuedLogouts?: string[];
+}
+
+async function tryRevokeRefreshToken(token: string, clientId: string, env: OAuthEnv): Promise<RevocationResult> {
+  const tokenHash = await hashToken(token);
+  const record = await getRefreshTokenRecord(tokenHash, env);
+
+  if (!record) return { outcome: 'not_found' };
+  if (record.client_id !== clientId) return { outcome: 'wrong_client' };
+  if (record.revoked) return { outcome: 'revoked' };
+
+  // Revoking a refresh token ends the whole grant, including access tokens issued from it
+  if (!(await revokeTokenFamily(record.family_id, env))) return { outcome: 'failed' };
+
+  return { outcome: 'revoked', queuedLogouts: await queueBackchannelLogout([record], env) };
+}
+
+async function tryRevokeAccessToken(token: string, clientId: string, env: OAuthEnv): Promise<RevocationResult> {
+  // Expired or malformed tokens are already unusable
+  const claims = await verifyAccessToken(token, env);
+  if (!claims) return { outcome: 'not_found' };
+  if (claims.client_id !== clientId) return { outcome: 'wrong_client' };
+
+  // Tokens minted before jti was introduced cannot be tracked
+  if (!claims.jti) return { outcome: 'not_found' };
+
+  return { outcome: (await storeRevokedAccessToken(claims, env)) ? 'revoked' : 'failed' };
+}
+
+// ========== Main Handler ==========
+
+/**
+ * Handle POST /oauth/revoke
+ * Accepts refresh tokens and access tokens; token_type_hint only changes lookup order
+ * Also returns the back-channel logouts queued by revoking a refresh token
+ */
+export async function handleRevoke(
+  request: Request,
+  env: OAuthEnv
+): Promise<LogoutQueueingResponse> {
+  const params = await parseOAuthRequestBody(request);
+  if (!params) {
+    return withoutQueuedLogouts(revocationError('invalid_request', 'Content-Type must be application/x-www-form-urlencoded or application/json'));
+  }
+
+  const { token, token_type_hint } = params;
+  if (!token) {
+    return withoutQueuedLogouts(revocationError('invalid_request', 'Missing token parameter'));
+  }
+
+  const auth = await authenticateClient(request, params, env);
+  if (!auth.authenticated) {
+    return withoutQueuedLogouts(clientAuthErrorResponse(auth));
+  }
+
+  const clientId = auth.client.client_id;
+
+  // JWTs have three dot-separated segments; refresh tokens are opaque
+  const looksLikeJwt = token.split('.').length === 3;
+  const accessFirst = token_type_hint === 'access_token' || (token_type_hint !== 'refresh_token' && looksLikeJwt);
+
+  const attempts = accessFirst
+    ? [tryRevokeAccessToken, tryRevokeRefreshToken]
+    : [tryRevokeRefreshToken, tryRevokeAccessToken];
+
+  for (const attempt of attempts) {
+    const { outcome, queuedLogouts = [] } = await attempt(token, clientId, env);
+
+    if (outcome === 'revoked') {
+      return { response: revocationSuccess(), queuedLogouts };
+    }
+    if (outcome === 'wrong_client') {
+      console.warn('Client attempted to revoke a token issued to another client:', clientId);
+      return withoutQueuedLogouts(revocationError('unauthorized_client', 'Token was not issued to this client'));
+    }
+    if (outcome === 'failed') {
+      return withoutQueuedLogouts(revocationError('server_error', 'Failed to revoke token', 500));
+    }
+  }
+
+  // Invalid or unknown tokens do not cause an error response (RFC 7009 Section 2.2)
+  return withoutQueuedLogouts(revocationSuccess());
+}
@@ -0,0 +1,41 @@
+/**
+ * OAuth Security Event Log
+ * Records suspicious activity (e.g. refresh token reuse) for admin review
+ */
+
+import { OAuthEnv, SecurityEvent } from './types';
+
+/**
+ * Write a security event, tagging it with the caller's IP and User-Agent
+ * Logging failures are reported but never block the OAuth response
+ */
+export async function logSecurityEvent(
+  event: SecurityEvent,
+  request: Request,
+  env: OAuthEnv
+): Promise<void> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_security_events`;
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+        'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+        'Content-Type': 'application/json',
+        'Prefer': 'return=minimal',
+      },
+      body: JSON.stringify({
+        ...event,
+        ip_address: request.headers.get('CF-Connecting-IP'),
+        user_agent: request.headers.get('User-Agent'),
+      }),
+    });
+
+    if (!response.ok) {
+      console.error('Failed to log security event:', event.event_type, response.status);
+    }
+  } catch (error) {
+    console.error('Failed to log security event:', event.event_type, error);
+  }
+}
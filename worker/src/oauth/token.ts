@@ -1,6 +1,8 @@
 /**
  * OAuth 2.0 Token Endpoint
  * /oauth/token - Exchange authorization code for tokens
+ * Also issues client_credentials tokens for server-to-server access
+ * and device_code tokens for devices without a browser (RFC 8628)
  */
 
 import {
@@ -9,9 +11,14 @@ import {
   AuthorizationCode,
   OAuthClient,
   RefreshTokenRecord,
+  RefreshTokenRevocationReason,
+  DeviceCodeRecord,
   UserProfile,
   OAuthEnv,
   TOKEN_EXPIRY,
+  DEVICE_CODE_GRANT_TYPE,
+  DEVICE_POLL_INTERVAL,
+  LogoutQueueingResponse,
 } from './types';
 import { verifyPKCE } from '../utils/pkce';
 import {
@@ -19,9 +26,10 @@ import {
   signIDToken,
   generateRefreshToken,
   hashToken,
-  verifyClientSecret,
-  verifyTokenHash,
 } from '../utils/crypto';
+import { authenticateClient, clientAuthErrorResponse, parseOAuthRequestBody, ClientAuthMethod } from './client-auth';
+import { logSecurityEvent } from './security-events';
+import { queueBackchannelLogout, withoutQueuedLogouts } from './backchannel';
 
 // ========== Database Helpers ==========
 
@@ -57,22 +65,6 @@ async function markCodeAsUsed(code: string, env: OAuthEnv): Promise<boolean> {
   return response.ok;
 }
 
-async function getClient(clientId: string, env: OAuthEnv): Promise<OAuthClient | null> {
-  const url = `${env.SUPABASE_URL}/rest/v1/oauth_clients?client_id=eq.${encodeURIComponent(clientId)}&is_active=eq.true&select=*`;
-
-  const response = await fetch(url, {
-    headers: {
-      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
-      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
-    },
-  });
-
-  if (!response.ok) return null;
-
-  const clients = await response.json() as OAuthClient[];
-  return clients[0] || null;
-}
-
 async function getUserProfile(userId: string, env: OAuthEnv): Promise<UserProfile | null> {
   const url = `${env.SUPABASE_URL}/rest/v1/profiles?id=eq.${userId}&select=*`;
 
@@ -111,6 +103,9 @@ async function storeRefreshToken(
   userId: string,
   clientId: string,
   scope: string,
+  familyId: string,
+  parentId: string | null,
+  authTime: number | null,
   env: OAuthEnv
 ): Promise<boolean> {
   const expiresAt = new Date(Date.now() + TOKEN_EXPIRY.REFRESH_TOKEN * 1000).toISOString();
@@ -129,6 +124,9 @@ async function storeRefreshToken(
       user_id: userId,
       client_id: clientId,
       scope,
+      family_id: familyId,
+      parent_id: parentId,
+      auth_time: authTime ? new Date(authTime * 1000).toISOString() : null,
       expires_at: expiresAt,
       revoked: false,
     }),
@@ -138,7 +136,8 @@ async function storeRefreshToken(
 }
 
 async function getRefreshTokenRecord(tokenHash: string, env: OAuthEnv): Promise<RefreshTokenRecord | null> {
-  const url = `${env.SUPABASE_URL}/rest/v1/oauth_refresh_tokens?token_hash=eq.${encodeURIComponent(tokenHash)}&revoked=eq.false&select=*`;
+  // Revoked tokens are returned too, so that reuse of a rotated token can be detected
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_refresh_tokens?token_hash=eq.${encodeURIComponent(tokenHash)}&select=*`;
 
   const response = await fetch(url, {
     headers: {
@@ -153,8 +152,44 @@ async function getRefreshTokenRecord(tokenHash: string, env: OAuthEnv): Promise<
   return records[0] || null;
 }
 
-async function revokeRefreshToken(tokenHash: string, env: OAuthEnv): Promise<boolean> {
-  const url = `${env.SUPABASE_URL}/rest/v1/oauth_refresh_tokens?token_hash=eq.${encodeURIComponent(tokenHash)}`;
+/**
+ * Revoke a single refresh token if it is still active
+ * Returns false when no row changed, i.e. another request revoked it first
+ */
+async function revokeRefreshToken(
+  tokenHash: string,
+  reason: RefreshTokenRevocationReason,
+  env: OAuthEnv
+): Promise<boolean> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_refresh_tokens?token_hash=eq.${encodeURIComponent(tokenHash)}&revoked=eq.false`;
+
+  const response = await fetch(url, {
+    method: 'PATCH',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      'Prefer': 'return=representation',
+    },
+    body: JSON.stringify({
+      revoked: true,
+      revoked_at: new Date().toISOString(),
+      revoked_reason: reason,
+    }),
+  });
+
+  if (!response.ok) return false;
+
+  const updated = await response.json() as RefreshTokenRecord[];
+  return updated.length > 0;
+}
+
+async function revokeTokenFamily(
+  familyId: string,
+  reason: RefreshTokenRevocationReason,
+  env: OAuthEnv
+): Promise<boolean> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_refresh_tokens?family_id=eq.${encodeURIComponent(familyId)}&revoked=eq.false`;
 
   const response = await fetch(url, {
     method: 'PATCH',
@@ -166,19 +201,85 @@ async function revokeRefreshToken(tokenHash: string, env: OAuthEnv): Promise<boo
     body: JSON.stringify({
       revoked: true,
       revoked_at: new Date().toISOString(),
+      revoked_reason: reason,
     }),
   });
 
   return response.ok;
 }
 
+async function getDeviceCodeRecord(deviceCodeHash: string, env: OAuthEnv): Promise<DeviceCodeRecord | null> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_device_codes?device_code_hash=eq.${encodeURIComponent(deviceCodeHash)}&select=*`;
+
+  const response = await fetch(url, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+
+  if (!response.ok) return null;
+
+  const records = await response.json() as DeviceCodeRecord[];
+  return records[0] || null;
+}
+
+async function updateDeviceCodePolling(
+  id: string,
+  changes: Pick<DeviceCodeRecord, 'last_polled_at'> & Partial<Pick<DeviceCodeRecord, 'poll_interval'>>,
+  env: OAuthEnv
+): Promise<void> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_device_codes?id=eq.${encodeURIComponent(id)}`;
+
+  await fetch(url, {
+    method: 'PATCH',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  });
+}
+
+/**
+ * Exchange an approved device code exactly once
+ * Returns false when another poll already consumed it
+ */
+async function consumeDeviceCode(id: string, env: OAuthEnv): Promise<boolean> {
+  const url = `${env.SUPABASE_URL}/rest/v1/oauth_device_codes?id=eq.${encodeURIComponent(id)}&status=eq.approved`;
+
+  const response = await fetch(url, {
+    method: 'PATCH',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      'Prefer': 'return=representation',
+    },
+    body: JSON.stringify({ status: 'consumed' }),
+  });
+
+  if (!response.ok) return false;
+
+  const updated = await response.json() as DeviceCodeRecord[];
+  return updated.length > 0;
+}
+
 // ========== Token Generation ==========
 
+function toUnixSeconds(timestamp: string | null): number | null {
+  return timestamp ? Math.floor(new Date(timestamp).getTime() / 1000) : null;
+}
+
 async function generateTokens(
   userId: string,
   clientId: string,
   scope: string,
   nonce: string | null,
+  familyId: string,
+  parentId: string | null,
+  authTime: number | null,
   env: OAuthEnv
 ): Promise<TokenResponse | null> {
   const issuer = env.FUNID_ISSUER || 'https://funprofile-api.funecosystem.org';
@@ -194,6 +295,7 @@ async function generateTokens(
       aud: clientId,
       client_id: clientId,
       scope,
+      sid: familyId,
     },
     env
   );
@@ -208,6 +310,14 @@ async function generateTokens(
     idTokenClaims.nonce = nonce;
   }
 
+  // Same sid as the access token, so back-channel logout can target this session
+  idTokenClaims.sid = familyId;
+
+  // Required when the client sent max_age; always included when known
+  if (authTime) {
+    idTokenClaims.auth_time = authTime;
+  }
+
   // Profile scope
   if (scopes.includes('profile') && profile) {
     if (profile.display_name) idTokenClaims.name = profile.display_name;
@@ -237,7 +347,7 @@ async function generateTokens(
   const refreshTokenHash = await hashToken(refreshToken);
 
   // Store refresh token
-  const stored = await storeRefreshToken(refreshTokenHash, userId, clientId, scope, env);
+  const stored = await storeRefreshToken(refreshTokenHash, userId, clientId, scope, familyId, parentId, authTime, env);
   if (!stored) {
     console.error('Failed to store refresh token');
     return null;
@@ -253,17 +363,6 @@ async function generateTokens(
   };
 }
 
-// ========== Request Parsing ==========
-
-function parseFormData(body: string): Record<string, string> {
-  const result: Record<string, string> = {};
-  for (const pair of body.split('&')) {
-    const [key, value] = pair.split('=').map(decodeURIComponent);
-    if (key) result[key] = value || '';
-  }
-  return result;
-}
-
 // ========== Error Response ==========
 
 function tokenError(error: string, description: string, status: number = 400): Response {
@@ -284,32 +383,36 @@ function tokenError(error: string, description: string, status: number = 400): R
 
 /**
  * Handle POST /oauth/token
+ * Also returns the back-channel logouts queued when refresh token reuse is detected
  */
 export async function handleToken(
   request: Request,
   env: OAuthEnv
-): Promise<Response> {
+): Promise<LogoutQueueingResponse> {
   // Parse request body
-  const contentType = request.headers.get('Content-Type') || '';
-  let params: Record<string, string>;
-
-  if (contentType.includes('application/x-www-form-urlencoded')) {
-    const body = await request.text();
-    params = parseFormData(body);
-  } else if (contentType.includes('application/json')) {
-    params = await request.json() as Record<string, string>;
-  } else {
-    return tokenError('invalid_request', 'Content-Type must be application/x-www-form-urlencoded or application/json');
+  const params = await parseOAuthRequestBody(request);
+  if (!params) {
+    return withoutQueuedLogouts(tokenError('invalid_request', 'Content-Type must be application/x-www-form-urlencoded or application/json'));
+  }
+
+  // Authenticate the client (client_secret_basic, client_secret_post or none)
+  const auth = await authenticateClient(request, params, env);
+  if (!auth.authenticated) {
+    return withoutQueuedLogouts(clientAuthErrorResponse(auth));
   }
 
   const grantType = params.grant_type;
 
   if (grantType === 'authorization_code') {
-    return handleAuthorizationCodeGrant(params, env);
+    return withoutQueuedLogouts(await handleAuthorizationCodeGrant(params, auth.client, env));
   } else if (grantType === 'refresh_token') {
-    return handleRefreshTokenGrant(params, env);
+    return handleRefreshTokenGrant(request, params, auth.client, env);
+  } else if (grantType === 'client_credentials') {
+    return withoutQueuedLogouts(await handleClientCredentialsGrant(params, auth.client, auth.method, env));
+  } else if (grantType === DEVICE_CODE_GRANT_TYPE) {
+    return withoutQueuedLogouts(await handleDeviceCodeGrant(params, auth.client, env));
   } else {
-    return tokenError('unsupported_grant_type', 'Only authorization_code and refresh_token grants are supported');
+    return withoutQueuedLogouts(tokenError('unsupported_grant_type', 'Only authorization_code, refresh_token, client_credentials and device_code grants are supported'));
   }
 }
 
@@ -317,9 +420,11 @@ export async function handleToken(
 
 async function handleAuthorizationCodeGrant(
   params: Record<string, string>,
+  client: OAuthClient,
   env: OAuthEnv
 ): Promise<Response> {
-  const { code, redirect_uri, client_id, client_secret, code_verifier } = params;
+  const { code, redirect_uri, code_verifier } = params;
+  const client_id = client.client_id;
 
   // Validate required parameters
   if (!code) {
@@ -328,9 +433,6 @@ async function handleAuthorizationCodeGrant(
   if (!redirect_uri) {
     return tokenError('invalid_request', 'Missing redirect_uri parameter');
   }
-  if (!client_id) {
-    return tokenError('invalid_request', 'Missing client_id parameter');
-  }
   if (!code_verifier) {
     return tokenError('invalid_request', 'Missing code_verifier parameter (PKCE required)');
   }
@@ -372,24 +474,6 @@ async function handleAuthorizationCodeGrant(
     return tokenError('invalid_grant', 'PKCE verification failed');
   }
 
-  // Get client
-  const client = await getClient(client_id, env);
-  if (!client) {
-    return tokenError('invalid_client', 'Client not found');
-  }
-
-  // Verify client secret for confidential clients
-  if (client.is_confidential) {
-    if (!client_secret) {
-      return tokenError('invalid_client', 'Missing client_secret for confidential client');
-    }
-
-    const secretValid = await verifyClientSecret(client_secret, client.client_secret_hash);
-    if (!secretValid) {
-      return tokenError('invalid_client', 'Invalid client_secret');
-    }
-  }
-
   // Mark code as used BEFORE generating tokens
   await markCodeAsUsed(code, env);
 
@@ -399,6 +483,145 @@ async function handleAuthorizationCodeGrant(
     authCode.client_id,
     authCode.scope,
     authCode.nonce,
+    crypto.randomUUID(), // New grant starts a new token family
+    null,
+    toUnixSeconds(authCode.auth_time),
+    env
+  );
+
+  if (!tokens) {
+    return tokenError('server_error', 'Failed to generate tokens', 500);
+  }
+
+  return new Response(JSON.stringify(tokens), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      'Pragma': 'no-cache',
+    },
+  });
+}
+
+// ========== Client Credentials Grant ==========
+
+// User scopes mean nothing without a user; openid would also imply an ID token
+const USER_ONLY_SCOPES = ['openid'];
+
+async function handleClientCredentialsGrant(
+  params: Record<string, string>,
+  client: OAuthClient,
+  method: ClientAuthMethod,
+  env: OAuthEnv
+): Promise<Response> {
+  // Only clients that can keep a secret may act on their own behalf
+  if (!client.is_confidential || method === 'none') {
+    return tokenError('unauthorized_client', 'client_credentials requires a confidential client');
+  }
+
+  if (!client.grant_types.includes('client_credentials')) {
+    return tokenError('unauthorized_client', 'Client is not allowed to use the client_credentials grant');
+  }
+
+  const allowedScopes = client.scopes.filter((s) => !USER_ONLY_SCOPES.includes(s));
+  let scopes = allowedScopes;
+
+  if (params.scope) {
+    const requested = params.scope.split(' ').filter(Boolean);
+    const invalid = requested.filter((s) => !allowedScopes.includes(s));
+    if (invalid.length > 0) {
+      return tokenError('invalid_scope', `Scopes not allowed for this client: ${invalid.join(', ')}`);
+    }
+    scopes = Array.from(new Set(requested));
+  }
+
+  const scope = scopes.join(' ');
+
+  // No sub and no sid: the token acts for the client itself and is not part of a user session
+  const accessToken = await signAccessToken(
+    {
+      aud: client.client_id,
+      client_id: client.client_id,
+      scope,
+    },
+    env
+  );
+
+  // No refresh token: the client can simply request a new access token (RFC 6749 Section 4.4.3)
+  const tokens: TokenResponse = {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: TOKEN_EXPIRY.ACCESS_TOKEN,
+    scope,
+  };
+
+  return new Response(JSON.stringify(tokens), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      'Pragma': 'no-cache',
+    },
+  });
+}
+
+// ========== Device Code Grant ==========
+
+async function handleDeviceCodeGrant(
+  params: Record<string, string>,
+  client: OAuthClient,
+  env: OAuthEnv
+): Promise<Response> {
+  const { device_code } = params;
+
+  if (!device_code) {
+    return tokenError('invalid_request', 'Missing device_code parameter');
+  }
+
+  const record = await getDeviceCodeRecord(await hashToken(device_code), env);
+  if (!record || record.client_id !== client.client_id) {
+    return tokenError('invalid_grant', 'Invalid device_code');
+  }
+
+  if (new Date(record.expires_at) < new Date()) {
+    return tokenError('expired_token', 'The device_code has expired');
+  }
+
+  // Polling faster than the interval: make the device back off (RFC 8628 Section 3.5)
+  const now = new Date();
+  if (record.last_polled_at && now.getTime() - new Date(record.last_polled_at).getTime() < record.poll_interval * 1000) {
+    await updateDeviceCodePolling(
+      record.id,
+      { last_polled_at: now.toISOString(), poll_interval: record.poll_interval + DEVICE_POLL_INTERVAL },
+      env
+    );
+    return tokenError('slow_down', `Polling too fast, wait at least ${record.poll_interval + DEVICE_POLL_INTERVAL} seconds`);
+  }
+
+  await updateDeviceCodePolling(record.id, { last_polled_at: now.toISOString() }, env);
+
+  switch (record.status) {
+    case 'pending':
+      return tokenError('authorization_pending', 'The user has not yet approved the device');
+    case 'denied':
+      return tokenError('access_denied', 'The user denied the request');
+    case 'consumed':
+      return tokenError('invalid_grant', 'The device_code has already been used');
+  }
+
+  // Mark consumed BEFORE generating tokens, so a racing poll cannot get a second set
+  if (!record.user_id || !(await consumeDeviceCode(record.id, env))) {
+    return tokenError('invalid_grant', 'The device_code has already been used');
+  }
+
+  const tokens = await generateTokens(
+    record.user_id,
+    record.client_id,
+    record.scope,
+    null, // Device flow has no nonce
+    crypto.randomUUID(), // New grant starts a new token family
+    null,
+    toUnixSeconds(record.auth_time),
     env
   );
 
@@ -419,16 +642,16 @@ async function handleAuthorizationCodeGrant(
 // ========== Refresh Token Grant ==========
 
 async function handleRefreshTokenGrant(
+  request: Request,
   params: Record<string, string>,
+  client: OAuthClient,
   env: OAuthEnv
-): Promise<Response> {
-  const { refresh_token, client_id, client_secret } = params;
+): Promise<LogoutQueueingResponse> {
+  const { refresh_token } = params;
+  const client_id = client.client_id;
 
   if (!refresh_token) {
-    return tokenError('invalid_request', 'Missing refresh_token parameter');
-  }
-  if (!client_id) {
-    return tokenError('invalid_request', 'Missing client_id parameter');
+    return withoutQueuedLogouts(tokenError('invalid_request', 'Missing refresh_token parameter'));
   }
 
   // Hash the provided token to look up record
@@ -436,40 +659,35 @@ async function handleRefreshTokenGrant(
   const tokenRecord = await getRefreshTokenRecord(tokenHash, env);
 
   if (!tokenRecord) {
-    return tokenError('invalid_grant', 'Invalid or expired refresh token');
-  }
-
-  // Check expiration
-  if (new Date(tokenRecord.expires_at) < new Date()) {
-    await revokeRefreshToken(tokenHash, env);
-    return tokenError('invalid_grant', 'Refresh token has expired');
+    return withoutQueuedLogouts(tokenError('invalid_grant', 'Invalid or expired refresh token'));
   }
 
   // Validate client_id matches
   if (tokenRecord.client_id !== client_id) {
-    return tokenError('invalid_grant', 'client_id does not match refresh token');
+    return withoutQueuedLogouts(tokenError('invalid_grant', 'client_id does not match refresh token'));
   }
 
-  // Get client
-  const client = await getClient(client_id, env);
-  if (!client) {
-    return tokenError('invalid_client', 'Client not found');
+  // A rotated token presented again means it leaked: kill the whole family
+  if (tokenRecord.revoked) {
+    const queuedLogouts = tokenRecord.revoked_reason === 'rotated'
+      ? await handleRefreshTokenReuse(tokenRecord, request, env)
+      : [];
+    return { response: tokenError('invalid_grant', 'Invalid or expired refresh token'), queuedLogouts };
   }
 
-  // Verify client secret for confidential clients
-  if (client.is_confidential) {
-    if (!client_secret) {
-      return tokenError('invalid_client', 'Missing client_secret for confidential client');
-    }
-
-    const secretValid = await verifyClientSecret(client_secret, client.client_secret_hash);
-    if (!secretValid) {
-      return tokenError('invalid_client', 'Invalid client_secret');
-    }
+  // Check expiration
+  if (new Date(tokenRecord.expires_at) < new Date()) {
+    await revokeRefreshToken(tokenHash, 'expired', env);
+    return withoutQueuedLogouts(tokenError('invalid_grant', 'Refresh token has expired'));
   }
 
-  // Revoke old refresh token (rotate tokens)
-  await revokeRefreshToken(tokenHash, env);
+  // Revoke old refresh token (rotate tokens). Losing this race means a
+  // concurrent request already rotated it, which is also treated as reuse.
+  const rotated = await revokeRefreshToken(tokenHash, 'rotated', env);
+  if (!rotated) {
+    const queuedLogouts = await handleRefreshTokenReuse(tokenRecord, request, env);
+    return { response: tokenError('invalid_grant', 'Invalid or expired refresh token'), queuedLogouts };
+  }
 
   // Generate new tokens
   const tokens = await generateTokens(
@@ -477,19 +695,50 @@ async function handleRefreshTokenGrant(
     tokenRecord.client_id,
     tokenRecord.scope,
     null, // No nonce for refresh
+    tokenRecord.family_id, // Rotation stays in the same family
+    tokenRecord.id,
+    toUnixSeconds(tokenRecord.auth_time), // Refreshing is not re-authenticating
     env
   );
 
   if (!tokens) {
-    return tokenError('server_error', 'Failed to generate tokens', 500);
+    return withoutQueuedLogouts(tokenError('server_error', 'Failed to generate tokens', 500));
   }
 
-  return new Response(JSON.stringify(tokens), {
+  return withoutQueuedLogouts(new Response(JSON.stringify(tokens), {
     status: 200,
     headers: {
       'Content-Type': 'application/json',
       'Cache-Control': 'no-store',
       'Pragma': 'no-cache',
     },
-  });
+  }));
+}
+
+async function handleRefreshTokenReuse(
+  tokenRecord: RefreshTokenRecord,
+  request: Request,
+  env: OAuthEnv
+): Promise<string[]> {
+  console.warn('Refresh token reuse detected, revoking family:', tokenRecord.family_id);
+
+  await revokeTokenFamily(tokenRecord.family_id, 'reuse_detected', env);
+  const queuedLogouts = await queueBackchannelLogout([tokenRecord], env);
+
+  await logSecurityEvent(
+    {
+      event_type: 'refresh_token_reuse',
+      user_id: tokenRecord.user_id,
+      client_id: tokenRecord.client_id,
+      family_id: tokenRecord.family_id,
+      details: {
+        token_id: tokenRecord.id,
+        revoked_at: tokenRecord.revoked_at,
+      },
+    },
+    request,
+    env
+  );
+
+  return queuedLogouts;
 }
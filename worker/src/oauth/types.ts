@@ -9,8 +9,10 @@ export interface OAuthEnv {
   FUNID_RSA_PRIVATE_KEY?: string;
   FUNID_RSA_PUBLIC_KEY?: string;
   FUNID_RSA_KID?: string;
+  FUNID_RSA_KEYSET?: string;
   FUNID_ISSUER?: string;
   FUNID_FRONTEND_URL?: string;
+  FUNID_INITIAL_ACCESS_TOKEN?: string;
 }
 
 // ========== OAuth Client Types ==========
@@ -18,14 +20,45 @@ export interface OAuthClient {
   id: string;
   client_id: string;
   client_name: string;
-  client_secret_hash: string;
+  client_secret_hash: string | null; // null for public clients
   redirect_uris: string[];
+  post_logout_redirect_uris: string[];
+  backchannel_logout_uri: string | null;
   scopes: string[];
   grant_types: string[];
   is_active: boolean;
   is_confidential: boolean;
+  token_endpoint_auth_method: TokenEndpointAuthMethod;
   logo_uri: string | null;
   client_uri: string | null;
+  registration_access_token_hash: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// ========== Client Registration (RFC 7591/7592) ==========
+export type TokenEndpointAuthMethod = 'client_secret_basic' | 'client_secret_post' | 'none';
+
+// Client metadata accepted by /oauth/register
+export interface ClientMetadata {
+  client_name: string;
+  redirect_uris: string[];
+  post_logout_redirect_uris: string[];
+  backchannel_logout_uri: string | null;
+  grant_types: string[];
+  scope: string;
+  token_endpoint_auth_method: TokenEndpointAuthMethod;
+  logo_uri: string | null;
+  client_uri: string | null;
+}
+
+export interface ClientRegistrationResponse extends ClientMetadata {
+  client_id: string;
+  client_id_issued_at: number;
+  client_secret?: string; // Only when just generated
+  client_secret_expires_at?: number;
+  registration_access_token?: string; // Only when just generated
+  registration_client_uri?: string;
 }
 
 // ========== Authorization Request ==========
@@ -38,6 +71,18 @@ export interface AuthorizeRequest {
   code_challenge?: string;
   code_challenge_method?: string;
   nonce?: string;
+  prompt?: string;
+  max_age?: string;
+  login_hint?: string;
+  id_token_hint?: string;
+}
+
+// ========== Signed-in User Session ==========
+// The FUN Profile user behind an authorization request, taken from their Supabase JWT
+export interface UserSession {
+  user_id: string;
+  auth_time: number; // Unix seconds of the last interactive sign-in
+  email?: string;
 }
 
 // ========== Authorization Code ==========
@@ -52,6 +97,7 @@ export interface AuthorizationCode {
   code_challenge_method: string | null;
   state: string | null;
   nonce: string | null;
+  auth_time: string | null;
   expires_at: string;
   used: boolean;
   created_at: string;
@@ -59,13 +105,15 @@ export interface AuthorizationCode {
 
 // ========== Token Request ==========
 export interface TokenRequest {
-  grant_type: 'authorization_code' | 'refresh_token';
+  grant_type: 'authorization_code' | 'refresh_token' | 'client_credentials' | typeof DEVICE_CODE_GRANT_TYPE;
   code?: string;
+  device_code?: string;
   redirect_uri?: string;
   client_id: string;
   client_secret?: string;
   code_verifier?: string;
   refresh_token?: string;
+  scope?: string;
 }
 
 // ========== Token Response ==========
@@ -92,6 +140,8 @@ export interface IDTokenClaims {
   exp: number;
   iat: number;
   nonce?: string;
+  auth_time?: number;
+  sid?: string; // Refresh token family, matched by back-channel logout
   // Profile claims
   name?: string;
   picture?: string;
@@ -106,10 +156,12 @@ export interface IDTokenClaims {
 // ========== Access Token Claims ==========
 export interface AccessTokenClaims {
   iss: string;
-  sub: string;
+  sub?: string; // Absent for client_credentials tokens, which act for the client itself
   aud: string;
   exp: number;
   iat: number;
+  jti?: string;
+  sid?: string; // Refresh token family the token was issued with
   client_id: string;
   scope: string;
 }
@@ -131,12 +183,122 @@ export interface RefreshTokenRecord {
   user_id: string;
   client_id: string;
   scope: string;
+  family_id: string;
+  parent_id: string | null;
   expires_at: string;
   revoked: boolean;
   revoked_at: string | null;
+  revoked_reason: RefreshTokenRevocationReason | null;
+  auth_time: string | null;
   created_at: string;
 }
 
+export type RefreshTokenRevocationReason = 'rotated' | 'revoked' | 'reuse_detected' | 'expired' | 'logout';
+
+// ========== Security Event ==========
+export type SecurityEventType =
+  | 'refresh_token_reuse'
+  | 'signing_key_promoted'
+  | 'client_registered'
+  | 'client_deleted';
+
+export interface SecurityEvent {
+  event_type: SecurityEventType;
+  user_id: string | null;
+  client_id: string | null;
+  family_id?: string | null;
+  details?: Record<string, unknown>;
+}
+
+// ========== Back-Channel Logout ==========
+export const BACKCHANNEL_LOGOUT_EVENT = 'http://schemas.openid.net/event/backchannel-logout';
+
+export interface LogoutTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string;
+  iat: number;
+  exp: number;
+  jti: string;
+  sid: string;
+  events: Record<typeof BACKCHANNEL_LOGOUT_EVENT, Record<string, never>>;
+}
+
+// A refresh token family that was just revoked and whose client may need notifying
+export type RevokedSession = Pick<RefreshTokenRecord, 'client_id' | 'user_id' | 'family_id'>;
+
+// A handler's response plus the back-channel logout deliveries it queued,
+// which the router delivers after responding
+export interface LogoutQueueingResponse {
+  response: Response;
+  queuedLogouts: string[];
+}
+
+export interface BackchannelLogoutDelivery {
+  id: string;
+  client_id: string;
+  user_id: string;
+  sid: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+// ========== Device Authorization (RFC 8628) ==========
+export const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+
+export type DeviceCodeStatus = 'pending' | 'approved' | 'denied' | 'consumed';
+
+export interface DeviceCodeRecord {
+  id: string;
+  device_code_hash: string;
+  user_code: string;
+  client_id: string;
+  scope: string;
+  status: DeviceCodeStatus;
+  user_id: string | null;
+  auth_time: string | null;
+  poll_interval: number;
+  last_polled_at: string | null;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface DeviceAuthorizationResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete: string;
+  expires_in: number;
+  interval: number;
+}
+
+// ========== Revoked Access Token Record ==========
+export interface RevokedAccessTokenRecord {
+  jti: string;
+  client_id: string;
+  user_id: string | null;
+  expires_at: string;
+  revoked_at: string;
+}
+
+// ========== Introspection Response (RFC 7662) ==========
+export interface IntrospectionResponse {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  sub?: string;
+  aud?: string | string[];
+  iss?: string;
+  exp?: number;
+  iat?: number;
+  jti?: string;
+  token_type?: string;
+}
+
 // ========== User Profile ==========
 export interface UserProfile {
   id: string;
@@ -164,14 +326,24 @@ export interface OpenIDConfiguration {
   token_endpoint: string;
   userinfo_endpoint: string;
   jwks_uri: string;
+  revocation_endpoint: string;
+  introspection_endpoint: string;
+  end_session_endpoint: string;
+  device_authorization_endpoint: string;
+  registration_endpoint: string;
+  backchannel_logout_supported: boolean;
+  backchannel_logout_session_supported: boolean;
   scopes_supported: string[];
   response_types_supported: string[];
   grant_types_supported: string[];
   subject_types_supported: string[];
   id_token_signing_alg_values_supported: string[];
   token_endpoint_auth_methods_supported: string[];
+  revocation_endpoint_auth_methods_supported: string[];
+  introspection_endpoint_auth_methods_supported: string[];
   claims_supported: string[];
   code_challenge_methods_supported: string[];
+  prompt_values_supported: string[];
 }
 
 // ========== JWKS Types ==========
@@ -188,14 +360,41 @@ export interface JWKS {
   keys: JWK[];
 }
 
+// ========== Signing Key Record ==========
+export type SigningKeyStatus = 'next' | 'current' | 'retiring';
+
+export interface SigningKeyRecord {
+  kid: string;
+  status: SigningKeyStatus;
+  created_at: string;
+  promoted_at: string | null;
+  retired_at: string | null;
+}
+
+// ========== Supported Grant Types ==========
+export const SUPPORTED_GRANT_TYPES = [
+  'authorization_code',
+  'refresh_token',
+  'client_credentials',
+  DEVICE_CODE_GRANT_TYPE,
+] as const;
+
 // ========== Supported Scopes ==========
 export const SUPPORTED_SCOPES = ['openid', 'profile', 'email', 'wallet'] as const;
 export type SupportedScope = typeof SUPPORTED_SCOPES[number];
 
+export const SUPPORTED_PROMPTS = ['none', 'login', 'consent', 'select_account'] as const;
+export type SupportedPrompt = typeof SUPPORTED_PROMPTS[number];
+
 // ========== Token Expiration Constants ==========
 export const TOKEN_EXPIRY = {
   ACCESS_TOKEN: 3600, // 1 hour in seconds
   ID_TOKEN: 3600, // 1 hour in seconds
   REFRESH_TOKEN: 30 * 24 * 3600, // 30 days in seconds
   AUTHORIZATION_CODE: 600, // 10 minutes in seconds
+  LOGOUT_TOKEN: 120, // 2 minutes in seconds
+  DEVICE_CODE: 600, // 10 minutes in seconds
 } as const;
+
+// Minimum seconds between device token polls; slow_down adds 5 each time (RFC 8628 Section 3.5)
+export const DEVICE_POLL_INTERVAL = 5;
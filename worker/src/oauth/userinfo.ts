@@ -4,49 +4,8 @@
  */
 
 import { UserInfoResponse, UserProfile, OAuthEnv } from './types';
-import { jwtVerify, createRemoteJWKSet, JWTPayload } from 'jose';
-
-// ========== JWKS for verifying our own tokens ==========
-let selfJwks: ReturnType<typeof createRemoteJWKSet> | null = null;
-
-function getSelfJWKS(issuer: string): ReturnType<typeof createRemoteJWKSet> {
-  if (!selfJwks) {
-    const jwksUrl = new URL('/.well-known/jwks.json', issuer);
-    selfJwks = createRemoteJWKSet(jwksUrl);
-  }
-  return selfJwks;
-}
-
-// ========== Access Token Verification ==========
-
-interface AccessTokenPayload extends JWTPayload {
-  sub: string;
-  client_id: string;
-  scope: string;
-}
-
-async function verifyAccessToken(
-  token: string,
-  env: OAuthEnv
-): Promise<AccessTokenPayload | null> {
-  const issuer = env.FUNID_ISSUER || 'https://funprofile-api.funecosystem.org';
-
-  try {
-    const { payload } = await jwtVerify(token, getSelfJWKS(issuer), {
-      issuer,
-    });
-
-    if (!payload.sub || typeof payload.sub !== 'string') {
-      console.error('Access token missing sub claim');
-      return null;
-    }
-
-    return payload as AccessTokenPayload;
-  } catch (error) {
-    console.error('Access token verification failed:', error instanceof Error ? error.message : error);
-    return null;
-  }
-}
+import { verifyAccessToken } from '../utils/crypto';
+import { isAccessTokenRevoked } from './revoke';
 
 // ========== Database Helpers ==========
 
@@ -120,10 +79,14 @@ export async function handleUserInfo(
 
   // Verify access token
   const payload = await verifyAccessToken(accessToken, env);
-  if (!payload) {
+  if (!payload?.sub) {
     return errorResponse('invalid_token', 'Invalid or expired access token', 401);
   }
 
+  if (await isAccessTokenRevoked(payload, env)) {
+    return errorResponse('invalid_token', 'Access token has been revoked', 401);
+  }
+
   const userId = payload.sub;
   const scopes = (payload.scope || '').split(' ');
 
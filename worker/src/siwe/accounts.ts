@@ -0,0 +1,212 @@
+/**
+ * SIWE Nonces, Wallet Links and Supabase Sessions
+ */
+
+import type { SiweSession } from './types';
+import { SIWE_NONCE_TTL_SECONDS } from './types';
+
+interface Env {
+  SUPABASE_URL: string;
+  SUPABASE_ANON_KEY: string;
+  SUPABASE_SERVICE_ROLE_KEY: string;
+}
+
+// Wallet-only accounts get an address-derived email; .invalid can never receive mail
+const WALLET_EMAIL_DOMAIN = 'wallet.funprofile.invalid';
+
+function serviceHeaders(env: Env): Record<string, string> {
+  return {
+    'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+    'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+// ========== NONCES ==========
+
+/**
+ * Issue a single-use nonce (EIP-4361 requires at least 8 alphanumeric characters)
+ */
+export async function createNonce(env: Env): Promise<{ nonce: string; expiresAt: string } | null> {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  const nonce = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  const expiresAt = new Date(Date.now() + SIWE_NONCE_TTL_SECONDS * 1000).toISOString();
+
+  const response = await fetch(`${env.SUPABASE_URL}/rest/v1/siwe_nonces`, {
+    method: 'POST',
+    headers: serviceHeaders(env),
+    body: JSON.stringify({ nonce, expires_at: expiresAt }),
+  });
+
+  if (!response.ok) {
+    console.error('Failed to store SIWE nonce:', response.status);
+    return null;
+  }
+
+  return { nonce, expiresAt };
+}
+
+/**
+ * Delete the nonce, succeeding only if it existed and had not expired
+ * The delete is atomic, so a replayed message loses the race
+ */
+export async function consumeNonce(nonce: string, env: Env): Promise<boolean> {
+  const url = `${env.SUPABASE_URL}/rest/v1/siwe_nonces?nonce=eq.${encodeURIComponent(nonce)}&expires_at=gt.${encodeURIComponent(new Date().toISOString())}`;
+
+  const response = await fetch(url, {
+    method: 'DELETE',
+    headers: { ...serviceHeaders(env), 'Prefer': 'return=representation' },
+  });
+
+  if (!response.ok) return false;
+
+  const deleted = await response.json() as unknown[];
+  return deleted.length === 1;
+}
+
+// ========== WALLET LINKS ==========
+
+/**
+ * Find the profile linked to a checksummed address
+ */
+export async function getProfileIdByWallet(address: string, env: Env): Promise<string | null> {
+  const url = `${env.SUPABASE_URL}/rest/v1/profiles?wallet_address=eq.${encodeURIComponent(address)}&select=id`;
+
+  const response = await fetch(url, { headers: serviceHeaders(env) });
+  if (!response.ok) return null;
+
+  const profiles = await response.json() as Array<{ id: string }>;
+  return profiles[0]?.id || null;
+}
+
+/**
+ * Set (or clear, with null) profiles.wallet_address
+ * The unique index turns a concurrent claim of the same address into 'conflict'.
+ */
+export async function setWalletAddress(
+  userId: string,
+  address: string | null,
+  env: Env
+): Promise<'updated' | 'conflict' | 'error'> {
+  const response = await fetch(`${env.SUPABASE_URL}/rest/v1/profiles?id=eq.${encodeURIComponent(userId)}`, {
+    method: 'PATCH',
+    headers: { ...serviceHeaders(env), 'Prefer': 'return=representation' },
+    body: JSON.stringify({ wallet_address: address }),
+  });
+
+  if (response.status === 409) return 'conflict';
+  if (!response.ok) {
+    console.error('Failed to update wallet address:', response.status);
+    return 'error';
+  }
+
+  const updated = await response.json() as unknown[];
+  return updated.length === 1 ? 'updated' : 'error';
+}
+
+// ========== USERS AND SESSIONS ==========
+
+async function getUserEmail(userId: string, env: Env): Promise<string | null> {
+  const response = await fetch(`${env.SUPABASE_URL}/auth/v1/admin/users/${encodeURIComponent(userId)}`, {
+    headers: serviceHeaders(env),
+  });
+  if (!response.ok) return null;
+
+  const user = await response.json() as { email?: string };
+  return user.email || null;
+}
+
+/**
+ * Accounts created by wallet sign-in have no other way to sign in
+ */
+export async function isWalletOnlyUser(userId: string, env: Env): Promise<boolean> {
+  const email = await getUserEmail(userId, env);
+  return !email || email.endsWith(`@${WALLET_EMAIL_DOMAIN}`);
+}
+
+/**
+ * Create a Supabase user for a wallet that has never signed in
+ * The handle_new_user trigger creates the profile.
+ */
+export async function createWalletUser(address: string, env: Env): Promise<string | null> {
+  const response = await fetch(`${env.SUPABASE_URL}/auth/v1/admin/users`, {
+    method: 'POST',
+    headers: serviceHeaders(env),
+    body: JSON.stringify({
+      email: `${address.toLowerCase()}@${WALLET_EMAIL_DOMAIN}`,
+      email_confirm: true,
+      user_metadata: {
+        display_name: `${address.slice(0, 6)}…${address.slice(-4)}`,
+        wallet_address: address,
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    console.error('Failed to create wallet user:', response.status);
+    return null;
+  }
+
+  const user = await response.json() as { id: string };
+  return user.id;
+}
+
+export async function deleteUser(userId: string, env: Env): Promise<void> {
+  const response = await fetch(`${env.SUPABASE_URL}/auth/v1/admin/users/${encodeURIComponent(userId)}`, {
+    method: 'DELETE',
+    headers: serviceHeaders(env),
+  });
+
+  if (!response.ok) {
+    console.error('Failed to delete wallet user:', userId, response.status);
+  }
+}
+
+/**
+ * Mint a Supabase session for a user without their password
+ * Generates a magic link server-side (no email is sent) and redeems its token hash.
+ */
+export async function createSession(userId: string, env: Env): Promise<SiweSession | null> {
+  const email = await getUserEmail(userId, env);
+  if (!email) {
+    console.error('Cannot create wallet session for user without email:', userId);
+    return null;
+  }
+
+  const linkResponse = await fetch(`${env.SUPABASE_URL}/auth/v1/admin/generate_link`, {
+    method: 'POST',
+    headers: serviceHeaders(env),
+    body: JSON.stringify({ type: 'magiclink', email }),
+  });
+  if (!linkResponse.ok) {
+    console.error('Failed to generate sign-in link:', linkResponse.status);
+    return null;
+  }
+
+  const link = await linkResponse.json() as { hashed_token?: string; properties?: { hashed_token?: string } };
+  const tokenHash = link.hashed_token || link.properties?.hashed_token;
+  if (!tokenHash) return null;
+
+  const verifyResponse = await fetch(`${env.SUPABASE_URL}/auth/v1/verify`, {
+    method: 'POST',
+    headers: {
+      'apikey': env.SUPABASE_ANON_KEY,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ type: 'magiclink', token_hash: tokenHash }),
+  });
+  if (!verifyResponse.ok) {
+    console.error('Failed to redeem sign-in link:', verifyResponse.status);
+    return null;
+  }
+
+  const session = await verifyResponse.json() as SiweSession;
+  return {
+    access_token: session.access_token,
+    refresh_token: session.refresh_token,
+    expires_in: session.expires_in,
+    expires_at: session.expires_at,
+    token_type: session.token_type,
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * HTTP Request Handlers for Sign-In With Ethereum
+ */
+
+import { parseSiweMessage, verifySiweSignature, checkSiweTimes } from './message';
+import {
+  createNonce,
+  consumeNonce,
+  getProfileIdByWallet,
+  setWalletAddress,
+  createWalletUser,
+  deleteUser,
+  isWalletOnlyUser,
+  createSession,
+} from './accounts';
+import type { SiweMessage } from './types';
+import { SIWE_NONCE_TTL_SECONDS, SIWE_CLOCK_SKEW_SECONDS } from './types';
+
+interface Env {
+  SUPABASE_URL: string;
+  SUPABASE_ANON_KEY: string;
+  SUPABASE_SERVICE_ROLE_KEY: string;
+  ALLOWED_ORIGINS?: string;
+  FUNID_FRONTEND_URL?: string;
+}
+
+// ========== HELPERS ==========
+function getCorsHeaders(request: Request, env: Env): HeadersInit {
+  const origin = request.headers.get('Origin') || '';
+  const allowedOrigins = (env.ALLOWED_ORIGINS || '*').split(',').map(o => o.trim());
+  const isAllowed = allowedOrigins.includes('*') || allowedOrigins.includes(origin);
+
+  if (isAllowed) {
+    return {
+      'Access-Control-Allow-Origin': origin || '*',
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    };
+  }
+  return {};
+}
+
+function jsonResponse(data: unknown, status: number, env: Env, request: Request): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      ...getCorsHeaders(request, env),
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+function errorResponse(message: string, status: number, env: Env, request: Request): Response {
+  return jsonResponse({ error: message, success: false }, status, env, request);
+}
+
+/**
+ * Domains a SIWE message may be bound to: the frontend and any explicitly allowed origin
+ */
+function getAllowedDomains(env: Env): string[] {
+  const origins = (env.ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(o => o && o !== '*');
+  if (env.FUNID_FRONTEND_URL) origins.push(env.FUNID_FRONTEND_URL);
+
+  const domains: string[] = [];
+  for (const origin of origins) {
+    try {
+      domains.push(new URL(origin).host);
+    } catch {
+      // Ignore malformed entries
+    }
+  }
+  return domains;
+}
+
+/**
+ * Validate a signed SIWE message and burn its nonce
+ * Every check runs before the nonce is consumed, so a bad request cannot waste it.
+ */
+async function verifySiweRequest(
+  request: Request,
+  env: Env
+): Promise<{ message: SiweMessage } | { error: string; status: number }> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { error: 'Invalid JSON body', status: 400 };
+  }
+
+  const data = body as Record<string, unknown> | null;
+  if (!data || typeof data.message !== 'string' || typeof data.signature !== 'string') {
+    return { error: 'message and signature are required', status: 400 };
+  }
+
+  const message = parseSiweMessage(data.message);
+  if (!message) {
+    return { error: 'Invalid SIWE message', status: 400 };
+  }
+
+  if (!getAllowedDomains(env).includes(message.domain)) {
+    return { error: 'Message domain is not allowed', status: 400 };
+  }
+
+  const timeError = checkSiweTimes(message, Date.now(), SIWE_CLOCK_SKEW_SECONDS, SIWE_NONCE_TTL_SECONDS);
+  if (timeError) {
+    return { error: timeError, status: 400 };
+  }
+
+  if (!verifySiweSignature(message, data.message, data.signature)) {
+    return { error: 'Invalid signature', status: 401 };
+  }
+
+  if (!(await consumeNonce(message.nonce, env))) {
+    return { error: 'Invalid or expired nonce', status: 401 };
+  }
+
+  return { message };
+}
+
+// ========== SIWE HANDLERS ==========
+
+/**
+ * GET /api/siwe/nonce - Issue a nonce for the next SIWE message
+ */
+export async function handleGetSiweNonce(request: Request, env: Env): Promise<Response> {
+  const result = await createNonce(env);
+  if (!result) {
+    return errorResponse('Failed to create nonce', 500, env, request);
+  }
+
+  return jsonResponse({ nonce: result.nonce, expires_at: result.expiresAt }, 200, env, request);
+}
+
+/**
+ * POST /api/siwe/link - Link the signing wallet to the current user's profile
+ */
+export async function handleLinkWallet(userId: string, request: Request, env: Env): Promise<Response> {
+  const verified = await verifySiweRequest(request, env);
+  if ('error' in verified) {
+    return errorResponse(verified.error, verified.status, env, request);
+  }
+
+  const address = verified.message.address;
+
+  const ownerId = await getProfileIdByWallet(address, env);
+  if (ownerId && ownerId !== userId) {
+    return errorResponse('This wallet is linked to another account', 409, env, request);
+  }
+
+  if (ownerId !== userId) {
+    const result = await setWalletAddress(userId, address, env);
+    if (result === 'conflict') {
+      return errorResponse('This wallet is linked to another account', 409, env, request);
+    }
+    if (result === 'error') {
+      return errorResponse('Failed to link wallet', 500, env, request);
+    }
+  }
+
+  return jsonResponse({ success: true, wallet_address: address }, 200, env, request);
+}
+
+/**
+ * DELETE /api/siwe/link - Remove the wallet from the current user's profile
+ * Wallet-only accounts would lose their only way in, so they keep theirs.
+ */
+export async function handleUnlinkWallet(userId: string, request: Request, env: Env): Promise<Response> {
+  if (await isWalletOnlyUser(userId, env)) {
+    return errorResponse('Wallet-only accounts cannot unlink their wallet', 400, env, request);
+  }
+
+  if ((await setWalletAddress(userId, null, env)) !== 'updated') {
+    return errorResponse('Failed to unlink wallet', 500, env, request);
+  }
+
+  return jsonResponse({ success: true }, 200, env, request);
+}
+
+/**
+ * POST /api/siwe/login - Sign in with a wallet, creating an account on first use
+ * Returns a Supabase session for the frontend to install with setSession()
+ */
+export async function handleSiweLogin(request: Request, env: Env): Promise<Response> {
+  const verified = await verifySiweRequest(request, env);
+  if ('error' in verified) {
+    return errorResponse(verified.error, verified.status, env, request);
+  }
+
+  const address = verified.message.address;
+  let userId = await getProfileIdByWallet(address, env);
+  let created = false;
+
+  if (!userId) {
+    const newUserId = await createWalletUser(address, env);
+    if (!newUserId) {
+      return errorResponse('Failed to create account', 500, env, request);
+    }
+
+    const result = await setWalletAddress(newUserId, address, env);
+    if (result !== 'updated') {
+      // Lost a race with a concurrent sign-in for the same wallet: use that account
+      await deleteUser(newUserId, env);
+      userId = result === 'conflict' ? await getProfileIdByWallet(address, env) : null;
+      if (!userId) {
+        return errorResponse('Failed to create account', 500, env, request);
+      }
+    } else {
+      userId = newUserId;
+      created = true;
+    }
+  }
+
+  const session = await createSession(userId, env);
+  if (!session) {
+    return errorResponse('Failed to create session', 500, env, request);
+  }
+
+  return jsonResponse({ success: true, created, wallet_address: address, session }, 200, env, request);
+}
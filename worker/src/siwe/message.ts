@@ -0,0 +1,185 @@
+/**
+ * EIP-4361 Message Parsing and Signature Verification
+ * Pure functions, no network or database access
+ */
+
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import type { SiweMessage } from './types';
+
+// ========== ADDRESSES ==========
+
+/**
+ * EIP-55 mixed-case checksum encoding
+ */
+export function toChecksumAddress(address: string): string {
+  const lower = address.toLowerCase().replace(/^0x/, '');
+  const hash = bytesToHex(keccak_256(utf8ToBytes(lower)));
+
+  let result = '0x';
+  for (let i = 0; i < lower.length; i++) {
+    result += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return result;
+}
+
+/**
+ * EIP-4361 requires the address in EIP-55 form, so the checksum is mandatory
+ */
+export function isChecksumAddress(address: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(address) && toChecksumAddress(address) === address;
+}
+
+// ========== PARSING ==========
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+const OPTIONAL_FIELDS: Array<[prefix: string, key: 'expirationTime' | 'notBefore' | 'requestId']> = [
+  ['Expiration Time: ', 'expirationTime'],
+  ['Not Before: ', 'notBefore'],
+  ['Request ID: ', 'requestId'],
+];
+
+function isTimestamp(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(Date.parse(value));
+}
+
+/**
+ * Parse an EIP-4361 message
+ * Fields must appear in the order the spec defines; returns null on anything else
+ */
+export function parseSiweMessage(text: string): SiweMessage | null {
+  const lines = text.split('\n');
+  let i = 0;
+
+  const header = lines[i++];
+  if (!header?.endsWith(HEADER_SUFFIX)) return null;
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+  if (!domain || /\s/.test(domain)) return null;
+
+  const address = lines[i++];
+  if (!address || !isChecksumAddress(address)) return null;
+
+  if (lines[i++] !== '') return null;
+
+  // The statement is optional; some clients drop the blank line that follows a missing one
+  let statement: string | null = null;
+  if (!lines[i]?.startsWith('URI: ')) {
+    if (lines[i] !== '') {
+      statement = lines[i++];
+    }
+    if (lines[i++] !== '') return null;
+  }
+
+  const field = (prefix: string): string | null => {
+    if (!lines[i]?.startsWith(prefix)) return null;
+    return lines[i++].slice(prefix.length);
+  };
+
+  const uri = field('URI: ');
+  const version = field('Version: ');
+  const chainId = field('Chain ID: ');
+  const nonce = field('Nonce: ');
+  const issuedAt = field('Issued At: ');
+
+  if (!uri || version !== '1' || !chainId || !nonce || !issuedAt) return null;
+  if (!/^[1-9]\d*$/.test(chainId)) return null;
+  if (!/^[A-Za-z0-9]{8,}$/.test(nonce)) return null;
+  if (!isTimestamp(issuedAt)) return null;
+
+  const message: SiweMessage = {
+    domain,
+    address,
+    statement,
+    uri,
+    version,
+    chainId: Number(chainId),
+    nonce,
+    issuedAt,
+    expirationTime: null,
+    notBefore: null,
+    requestId: null,
+    resources: [],
+  };
+
+  for (const [prefix, key] of OPTIONAL_FIELDS) {
+    const value = field(prefix);
+    if (value !== null) message[key] = value;
+  }
+
+  if (message.expirationTime && !isTimestamp(message.expirationTime)) return null;
+  if (message.notBefore && !isTimestamp(message.notBefore)) return null;
+
+  if (lines[i] === 'Resources:') {
+    i++;
+    while (lines[i]?.startsWith('- ')) {
+      message.resources.push(lines[i++].slice(2));
+    }
+  }
+
+  // Nothing may follow the last field
+  if (i !== lines.length) return null;
+
+  return message;
+}
+
+// ========== SIGNATURES ==========
+
+/**
+ * EIP-191 personal_sign digest: keccak256("\x19Ethereum Signed Message:\n" + length + message)
+ */
+export function hashPersonalMessage(message: string): Uint8Array {
+  const bytes = utf8ToBytes(message);
+  const prefix = utf8ToBytes(`\x19Ethereum Signed Message:\n${bytes.length}`);
+  return keccak_256(concatBytes(prefix, bytes));
+}
+
+/**
+ * Recover the signing address from a 65-byte r || s || v signature
+ * Accepts v as 27/28 (wallets) or 0/1. Returns null for malformed signatures.
+ */
+export function recoverAddress(message: string, signature: string): string | null {
+  if (!/^0x[0-9a-fA-F]{130}$/.test(signature)) return null;
+
+  const bytes = hexToBytes(signature.slice(2));
+  const v = bytes[64];
+  const recovery = v >= 27 ? v - 27 : v;
+  if (recovery !== 0 && recovery !== 1) return null;
+
+  try {
+    const publicKey = secp256k1.Signature.fromCompact(bytes.slice(0, 64))
+      .addRecoveryBit(recovery)
+      .recoverPublicKey(hashPersonalMessage(message))
+      .toBytes(false);
+
+    // Address = last 20 bytes of keccak256 of the uncompressed key without its 0x04 prefix
+    return toChecksumAddress(bytesToHex(keccak_256(publicKey.slice(1)).slice(-20)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check that the message was signed by the address it names
+ */
+export function verifySiweSignature(message: SiweMessage, text: string, signature: string): boolean {
+  const recovered = recoverAddress(text, signature);
+  return recovered !== null && recovered === message.address;
+}
+
+/**
+ * Check the message's time bounds against now (in ms), allowing some clock skew
+ * Returns a reason when the message is not currently valid
+ */
+export function checkSiweTimes(message: SiweMessage, now: number, skewSeconds: number, maxAgeSeconds: number): string | null {
+  const skew = skewSeconds * 1000;
+  const issuedAt = Date.parse(message.issuedAt);
+
+  if (issuedAt > now + skew) return 'Message issued in the future';
+  if (issuedAt < now - maxAgeSeconds * 1000 - skew) return 'Message is too old';
+  if (message.expirationTime && Date.parse(message.expirationTime) <= now - skew) return 'Message has expired';
+  if (message.notBefore && Date.parse(message.notBefore) > now + skew) return 'Message is not yet valid';
+
+  return null;
+}
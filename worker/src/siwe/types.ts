@@ -0,0 +1,35 @@
+/**
+ * Sign-In With Ethereum Types for Cloudflare Worker
+ */
+
+// EIP-4361 message fields
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement: string | null;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime: string | null;
+  notBefore: string | null;
+  requestId: string | null;
+  resources: string[];
+}
+
+export interface SiweRequestBody {
+  message: string;
+  signature: string;
+}
+
+export interface SiweSession {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  expires_at?: number;
+  token_type: string;
+}
+
+export const SIWE_NONCE_TTL_SECONDS = 600;
+export const SIWE_CLOCK_SKEW_SECONDS = 300;
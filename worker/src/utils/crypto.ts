@@ -3,61 +3,39 @@
  * JWT Signing with RS256 using jose library
  */
 
-import { SignJWT, importPKCS8, importSPKI, exportJWK, JWTPayload } from 'jose';
+import { SignJWT, exportJWK, jwtVerify, compactVerify, JWTPayload, KeyLike } from 'jose';
 import { 
   IDTokenClaims, 
   AccessTokenClaims, 
+  LogoutTokenClaims,
   TOKEN_EXPIRY,
   JWK,
   OAuthEnv 
 } from '../oauth/types';
+import { getActiveSigningKey, getSigningKeys, clearSigningKeyCache, SigningKey } from '../oauth/keys';
 import { base64UrlEncode } from './pkce';
 
-// ========== Cache for imported keys ==========
-let cachedPrivateKey: CryptoKey | null = null;
-let cachedPublicKey: CryptoKey | null = null;
-
-/**
- * Import RSA private key from PEM format
- */
-async function getPrivateKey(pem: string): Promise<CryptoKey> {
-  if (!cachedPrivateKey) {
-    cachedPrivateKey = await importPKCS8(pem, 'RS256');
-  }
-  return cachedPrivateKey;
-}
-
-/**
- * Import RSA public key from PEM format
- */
-async function getPublicKey(pem: string): Promise<CryptoKey> {
-  if (!cachedPublicKey) {
-    cachedPublicKey = await importSPKI(pem, 'RS256');
-  }
-  return cachedPublicKey;
-}
-
 /**
  * Sign an Access Token with RS256
  */
 export async function signAccessToken(
-  claims: Omit<AccessTokenClaims, 'iss' | 'iat' | 'exp'>,
+  claims: Omit<AccessTokenClaims, 'iss' | 'iat' | 'exp' | 'jti'>,
   env: OAuthEnv
 ): Promise<string> {
-  if (!env.FUNID_RSA_PRIVATE_KEY) {
+  const signingKey = await getActiveSigningKey(env);
+  if (!signingKey?.privateKey) {
     throw new Error('RSA private key not configured');
   }
 
-  const privateKey = await getPrivateKey(env.FUNID_RSA_PRIVATE_KEY);
   const issuer = env.FUNID_ISSUER || 'https://funprofile-api.funecosystem.org';
-  const kid = env.FUNID_RSA_KID || 'funid-key-2026';
 
   return new SignJWT(claims as unknown as JWTPayload)
-    .setProtectedHeader({ alg: 'RS256', typ: 'at+jwt', kid })
+    .setProtectedHeader({ alg: 'RS256', typ: 'at+jwt', kid: signingKey.kid })
+    .setJti(crypto.randomUUID())
     .setIssuedAt()
     .setIssuer(issuer)
     .setExpirationTime(`${TOKEN_EXPIRY.ACCESS_TOKEN}s`)
-    .sign(privateKey);
+    .sign(signingKey.privateKey);
 }
 
 /**
@@ -67,50 +45,142 @@ export async function signIDToken(
   claims: Omit<IDTokenClaims, 'iss' | 'iat' | 'exp'>,
   env: OAuthEnv
 ): Promise<string> {
-  if (!env.FUNID_RSA_PRIVATE_KEY) {
+  const signingKey = await getActiveSigningKey(env);
+  if (!signingKey?.privateKey) {
     throw new Error('RSA private key not configured');
   }
 
-  const privateKey = await getPrivateKey(env.FUNID_RSA_PRIVATE_KEY);
   const issuer = env.FUNID_ISSUER || 'https://funprofile-api.funecosystem.org';
-  const kid = env.FUNID_RSA_KID || 'funid-key-2026';
 
   return new SignJWT(claims as unknown as JWTPayload)
-    .setProtectedHeader({ alg: 'RS256', typ: 'JWT', kid })
+    .setProtectedHeader({ alg: 'RS256', typ: 'JWT', kid: signingKey.kid })
     .setIssuedAt()
     .setIssuer(issuer)
     .setExpirationTime(`${TOKEN_EXPIRY.ID_TOKEN}s`)
-    .sign(privateKey);
+    .sign(signingKey.privateKey);
+}
+
+/**
+ * Sign a Logout Token with RS256 (OIDC Back-Channel Logout 1.0)
+ */
+export async function signLogoutToken(
+  claims: Omit<LogoutTokenClaims, 'iss' | 'iat' | 'exp' | 'jti'>,
+  env: OAuthEnv
+): Promise<string> {
+  const signingKey = await getActiveSigningKey(env);
+  if (!signingKey?.privateKey) {
+    throw new Error('RSA private key not configured');
+  }
+
+  const issuer = env.FUNID_ISSUER || 'https://funprofile-api.funecosystem.org';
+
+  return new SignJWT(claims as unknown as JWTPayload)
+    .setProtectedHeader({ alg: 'RS256', typ: 'logout+jwt', kid: signingKey.kid })
+    .setJti(crypto.randomUUID())
+    .setIssuedAt()
+    .setIssuer(issuer)
+    .setExpirationTime(`${TOKEN_EXPIRY.LOGOUT_TOKEN}s`)
+    .sign(signingKey.privateKey);
 }
 
 /**
- * Export RSA public key as JWK for JWKS endpoint
+ * Pick the published key matching a JWT's kid header
  */
-export async function exportPublicKeyAsJWK(env: OAuthEnv): Promise<JWK | null> {
-  if (!env.FUNID_RSA_PUBLIC_KEY) {
+function findVerificationKey(keys: SigningKey[], kid: string | undefined): KeyLike {
+  const key = keys.find((k) => k.kid === kid);
+  if (!key) throw new Error(`Unknown signing key: ${kid}`);
+  return key.publicKey;
+}
+
+/**
+ * Verify an Access Token issued by this server
+ * Uses the local key set (selected by kid), so no JWKS round-trip to ourselves
+ */
+export async function verifyAccessToken(
+  token: string,
+  env: OAuthEnv
+): Promise<AccessTokenClaims | null> {
+  const keys = await getSigningKeys(env);
+  if (keys.length === 0) {
     console.error('RSA public key not configured');
     return null;
   }
 
+  const issuer = env.FUNID_ISSUER || 'https://funprofile-api.funecosystem.org';
+
   try {
-    const publicKey = await getPublicKey(env.FUNID_RSA_PUBLIC_KEY);
-    const jwk = await exportJWK(publicKey);
-    const kid = env.FUNID_RSA_KID || 'funid-key-2026';
-
-    return {
-      kty: jwk.kty || 'RSA',
-      kid: kid,
-      use: 'sig',
-      alg: 'RS256',
-      n: jwk.n || '',
-      e: jwk.e || '',
-    };
+    const { payload } = await jwtVerify(token, (header) => findVerificationKey(keys, header.kid), {
+      issuer,
+      typ: 'at+jwt',
+    });
+
+    if (typeof payload.client_id !== 'string') {
+      console.error('Access token missing client_id claim');
+      return null;
+    }
+
+    return payload as unknown as AccessTokenClaims;
   } catch (error) {
-    console.error('Failed to export public key as JWK:', error);
+    console.error('Access token verification failed:', error instanceof Error ? error.message : error);
     return null;
   }
 }
 
+/**
+ * Verify an ID Token previously issued by this server (id_token_hint)
+ * Expired tokens are still accepted as hints, so only signature, type and issuer are checked
+ */
+export async function verifyIDTokenHint(
+  token: string,
+  env: OAuthEnv
+): Promise<IDTokenClaims | null> {
+  const keys = await getSigningKeys(env);
+  if (keys.length === 0) return null;
+
+  const issuer = env.FUNID_ISSUER || 'https://funprofile-api.funecosystem.org';
+
+  try {
+    const { payload, protectedHeader } = await compactVerify(token, (header) => findVerificationKey(keys, header.kid));
+
+    // Access tokens are signed with the same keys but typed at+jwt
+    if (protectedHeader.typ !== 'JWT') return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(payload)) as IDTokenClaims;
+    if (claims.iss !== issuer || typeof claims.sub !== 'string') return null;
+
+    return claims;
+  } catch (error) {
+    console.error('ID token hint verification failed:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Export every published public key (current, next and retiring) as JWKs
+ */
+export async function exportPublicKeysAsJWKS(env: OAuthEnv): Promise<JWK[]> {
+  const keys = await getSigningKeys(env);
+  const jwks: JWK[] = [];
+
+  for (const key of keys) {
+    try {
+      const jwk = await exportJWK(key.publicKey);
+      jwks.push({
+        kty: jwk.kty || 'RSA',
+        kid: key.kid,
+        use: 'sig',
+        alg: 'RS256',
+        n: jwk.n || '',
+        e: jwk.e || '',
+      });
+    } catch (error) {
+      console.error('Failed to export public key as JWK:', key.kid, error);
+    }
+  }
+
+  return jwks;
+}
+
 /**
  * Generate a cryptographically secure random string
  */
@@ -127,6 +197,51 @@ export function generateAuthorizationCode(): string {
   return generateSecureToken(32);
 }
 
+/**
+ * Generate a device code (RFC 8628), only ever stored hashed
+ */
+export function generateDeviceCode(): string {
+  return generateSecureToken(32);
+}
+
+// Consonants only: no vowels (no accidental words) and nothing easily confused like 0/O or 1/I
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ';
+
+/**
+ * Generate an 8 character user code, normalized (no dash)
+ * Rejection sampling keeps every character equally likely
+ */
+export function generateUserCode(): string {
+  const limit = 256 - (256 % USER_CODE_ALPHABET.length);
+  let code = '';
+
+  while (code.length < 8) {
+    const bytes = new Uint8Array(16);
+    crypto.getRandomValues(bytes);
+    for (const byte of bytes) {
+      if (byte < limit && code.length < 8) {
+        code += USER_CODE_ALPHABET[byte % USER_CODE_ALPHABET.length];
+      }
+    }
+  }
+
+  return code;
+}
+
+/**
+ * Generate a client secret (returned to the registrant once, stored hashed)
+ */
+export function generateClientSecret(): string {
+  return generateSecureToken(32);
+}
+
+/**
+ * Generate a registration access token (RFC 7592), stored hashed
+ */
+export function generateRegistrationAccessToken(): string {
+  return generateSecureToken(32);
+}
+
 /**
  * Generate a refresh token
  */
@@ -179,6 +294,5 @@ export async function verifyClientSecret(secret: string, storedHash: string): Pr
  * Clear cached keys (for key rotation)
  */
 export function clearKeyCache(): void {
-  cachedPrivateKey = null;
-  cachedPublicKey = null;
+  clearSigningKeyCache();
 }
@@ -0,0 +1,58 @@
+/**
+ * Keyset Pagination Cursors
+ * A cursor is the (created_at, id) of the last row a page returned,
+ * base64url-encoded so clients treat it as opaque.
+ */
+
+import { base64UrlEncode, base64UrlDecode } from './pkce';
+
+export interface Cursor {
+  created_at: string;
+  id: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function encodeCursor(row: Cursor): string {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify([row.created_at, row.id])));
+}
+
+/**
+ * Decode a cursor; null when it is malformed or was not issued by us
+ */
+export function decodeCursor(value: string): Cursor | null {
+  try {
+    const decoded = JSON.parse(new TextDecoder().decode(base64UrlDecode(value)));
+    if (!Array.isArray(decoded) || decoded.length !== 2) return null;
+
+    const [createdAt, id] = decoded;
+    if (typeof createdAt !== 'string' || Number.isNaN(Date.parse(createdAt))) return null;
+    if (typeof id !== 'string' || !UUID_PATTERN.test(id)) return null;
+
+    return { created_at: createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * PostgREST filter for the rows after the cursor in (created_at, id) order
+ * Values are quoted because timestamps contain "." and ":".
+ */
+export function cursorFilter(cursor: Cursor, direction: 'asc' | 'desc'): string {
+  const op = direction === 'desc' ? 'lt' : 'gt';
+  const createdAt = encodeURIComponent(`"${cursor.created_at}"`);
+  return `or=(created_at.${op}.${createdAt},and(created_at.eq.${createdAt},id.${op}.${cursor.id}))`;
+}
+
+/**
+ * Trim a page fetched with limit + 1 rows and derive the next cursor from it
+ */
+export function paginate<T extends Cursor>(rows: T[], limit: number): { items: T[]; nextCursor: string | null } {
+  if (rows.length <= limit) {
+    return { items: rows, nextCursor: null };
+  }
+
+  const items = rows.slice(0, limit);
+  return { items, nextCursor: encodeCursor(items[items.length - 1]) };
+}